@@ -2,30 +2,81 @@ import { useMemo, useEffect, useRef } from 'react';
 import { Card, CardHeader, CardTitle, CardContent } from '@homework/ui/card';
 import { TreeView } from '@homework/ui/tree-view';
 import { Input } from '@homework/ui/input';
-import { useAtomValue, useSetAtom } from 'jotai';
+import { useAtom, useAtomValue, useSetAtom } from 'jotai';
 import { useTree } from '../hooks/useTree';
 import { useTreeViewIntegration } from '../hooks/useTreeViewIntegration';
 import { useSearch } from '../hooks/useSearch';
 import { useSearchTree } from '../hooks/useSearchTree';
+import { useChildrenSort } from '../hooks/useChildrenSort';
+import { useNameSuggestions } from '../hooks/useNameSuggestions';
+import { useCompareNodes } from '../hooks/useCompareNodes';
+import { useEntryEditing } from '../hooks/useEntryEditing';
 import {
   isSearchModeAtom,
   setMultipleNodesExpandedAtom,
   clearAllExpandedNodesAtom,
+  selectedNodeHashAtom,
+  selectedNodeAtom,
+  displayCountAtom,
+  pathResolutionAtom,
+  type DisplayCount,
 } from '../store/treeAtoms';
 import { HighlightedText } from '../utils/highlightSearchTerm';
+import { getLastPathSegment, isPathQuery } from '../utils/pathQuery';
+import { SynsetOccurrences } from '../components/SynsetOccurrences';
+import { Breadcrumbs } from '../components/Breadcrumbs';
+import { NodeDetails } from '../components/NodeDetails';
+import { NodeComparison } from '../components/NodeComparison';
+import {
+  NameSuggestions,
+  NAME_SUGGESTIONS_ID,
+  nameSuggestionId,
+} from '../components/NameSuggestions';
 import type { TreeRenderItemParams } from '@homework/ui/tree-view';
 // These are not exported from the main tree-view index
 import { TreeIcon } from '@homework/ui/tree-view/components/TreeIcon';
+import type { ChildrenSort, SearchMode } from '../services/treeApi';
+
+// Placeholder of the search input in each search mode
+const SEARCH_PLACEHOLDERS: Record<SearchMode, string> = {
+  exact: 'Search... (or a path: ImageNet 2011 Fall Release > plant)',
+  fuzzy: 'Search... (or a path: ImageNet 2011 Fall Release > plant)',
+  query: 'Query... (e.g. name:oak AND under:"woody plant" AND size>10)',
+  pattern: 'Path pattern... (e.g. animal > * > dog or plant > ** > *berry)',
+};
 
 export function App() {
   const { treeData, isLoading } = useTree();
 
-  const { searchQuery, setSearchQuery, isSearching, loadMoreSearchResults } =
-    useSearch();
+  const {
+    searchQuery,
+    setSearchQuery,
+    searchMode,
+    setSearchMode,
+    searchScope,
+    setSearchScope,
+    suggestions,
+    searchError,
+    searchCounts,
+    searchResults,
+    facetDepth,
+    setFacetDepth,
+    isSearching,
+    loadMoreSearchResults,
+  } = useSearch();
   const searchTreeData = useSearchTree();
+  const nameSuggestions = useNameSuggestions();
+  const { compareSource, comparison } = useCompareNodes();
+  const { handleRename, handleAddChild, handleDelete, editError } =
+    useEntryEditing();
   const isSearchMode = useAtomValue(isSearchModeAtom);
   const setMultipleExpanded = useSetAtom(setMultipleNodesExpandedAtom);
   const clearAllExpanded = useSetAtom(clearAllExpandedNodesAtom);
+  const selectedHash = useAtomValue(selectedNodeHashAtom);
+  const selectedNode = useAtomValue(selectedNodeAtom);
+  const [displayCount, setDisplayCount] = useAtom(displayCountAtom);
+  const { sort, setSort } = useChildrenSort();
+  const pathResolution = useAtomValue(pathResolutionAtom);
 
   // Track which search results we've already expanded to prevent re-expansion
   const expandedSearchResultsRef = useRef<string>('');
@@ -248,69 +299,290 @@ export function App() {
   const displayTreeData = isSearchMode ? searchTreeData : treeData;
   const displayIsLoading = isSearchMode ? isSearching : isLoading;
 
-  // Create renderItem function for search mode with highlighting
+  // Synonym a match was found by, when it isn't the label shown in the tree
+  const matchedSynonyms = useMemo(() => {
+    const synonyms = new Map<string, string>();
+    for (const node of searchResults) {
+      if (node.matchedSynonym && node.matchedSynonym !== node.label) {
+        synonyms.set(node.hash, node.matchedSynonym);
+      }
+    }
+    return synonyms;
+  }, [searchResults]);
+
+  // Create renderItem function for search mode with highlighting, matched synonyms and match count badges
   const renderItem = useMemo(() => {
     if (!isSearchMode || !searchQuery.trim()) {
       return undefined;
     }
 
+    // Path queries highlight the name they resolve to,
+    // structured queries and path patterns aren't words to highlight
+    const isWordSearch = searchMode === 'exact' || searchMode === 'fuzzy';
+    const searchTerm = !isWordSearch
+      ? ''
+      : isPathQuery(searchQuery)
+      ? getLastPathSegment(searchQuery)
+      : searchQuery.trim();
+
     return (params: TreeRenderItemParams) => {
       const { item } = params;
+      const matchCount = searchCounts?.facets[item.id];
+      const matchedSynonym = matchedSynonyms.get(item.id);
 
       return (
         <>
           <TreeIcon item={item} />
           <HighlightedText
             text={item.name}
-            searchTerm={searchQuery.trim()}
+            searchTerm={searchTerm}
             className="flex-1 min-w-0 text-sm truncate"
+            title={item.title}
           />
+          {matchedSynonym && (
+            <HighlightedText
+              text={matchedSynonym}
+              searchTerm={searchTerm}
+              className="min-w-0 max-w-[50%] text-xs truncate text-muted-foreground"
+              title="Matched synonym"
+            />
+          )}
+          {matchCount !== undefined && (
+            <span
+              title={`${matchCount} matches in this branch`}
+              className="shrink-0 px-1.5 text-xs rounded-full bg-muted text-muted-foreground"
+            >
+              {matchCount}
+            </span>
+          )}
+        </>
+      );
+    };
+  }, [isSearchMode, searchQuery, searchMode, searchCounts, matchedSynonyms]);
+
+  // Highlights the paths of the compared nodes up to their common ancestor in the lazy tree
+  const comparisonRenderItem = useMemo(() => {
+    if (!comparison) {
+      return undefined;
+    }
+
+    const { ancestor, chainA, chainB } = comparison;
+    const pathHashes = new Set(
+      [...chainA, ...chainB]
+        .filter((entry) => entry.depth >= ancestor.depth)
+        .map((entry) => entry.hash)
+    );
+
+    return (params: TreeRenderItemParams) => {
+      const { item } = params;
+      const isOnPath = pathHashes.has(item.id);
+
+      return (
+        <>
+          <TreeIcon item={item} />
+          <span
+            className={`flex-1 min-w-0 text-sm truncate ${
+              isOnPath ? 'font-medium text-primary' : ''
+            }`}
+            title={item.title}
+          >
+            {item.name}
+          </span>
+          {item.id === ancestor.hash && (
+            <span className="shrink-0 px-1.5 text-xs rounded-full bg-muted text-muted-foreground">
+              common ancestor
+            </span>
+          )}
         </>
       );
     };
-  }, [isSearchMode, searchQuery]);
+  }, [comparison]);
 
   return (
     <div className="flex justify-center items-center p-4 min-h-screen">
       <Card className="w-full max-w-2xl">
-        <CardHeader>
+        <CardHeader className="flex flex-row justify-between items-center">
           <CardTitle>ImageNet Tree</CardTitle>
+          <div className="flex gap-2">
+            <select
+              aria-label="Order of children"
+              className="px-2 h-8 text-sm rounded-md border border-input bg-transparent"
+              value={sort}
+              onChange={(e) => setSort(e.target.value as ChildrenSort)}
+            >
+              <option value="name">Name (A-Z)</option>
+              <option value="-name">Name (Z-A)</option>
+              <option value="-size">Largest first</option>
+              <option value="size">Smallest first</option>
+              <option value="document">Document order</option>
+            </select>
+            <select
+              aria-label="Count shown next to names"
+              className="px-2 h-8 text-sm rounded-md border border-input bg-transparent"
+              value={displayCount}
+              onChange={(e) => setDisplayCount(e.target.value as DisplayCount)}
+            >
+              <option value="descendantCount">Descendants</option>
+              <option value="childCount">Children</option>
+              <option value="leafCount">Leaves</option>
+            </select>
+          </div>
         </CardHeader>
         <CardContent className="space-y-4">
           <div className="space-y-2">
-            <label htmlFor="search" className="text-sm font-medium">
-              Search
-            </label>
-            <Input
-              ref={searchInputRef}
-              id="search"
-              type="search"
-              placeholder="Search..."
-              value={searchQuery}
-              onChange={(e) => {
-                setSearchQuery(e.target.value);
-                // Ensure focus flag is set when user is typing
-                wasInputFocusedRef.current = true;
-              }}
-              onFocus={() => {
-                wasInputFocusedRef.current = true;
-              }}
-            />
+            <div className="flex items-center justify-between">
+              <label htmlFor="search" className="text-sm font-medium">
+                Search
+              </label>
+              <select
+                aria-label="Search mode"
+                className="px-2 h-8 text-sm rounded-md border border-input bg-transparent"
+                value={searchMode}
+                onChange={(e) => setSearchMode(e.target.value as SearchMode)}
+              >
+                <option value="exact">Words</option>
+                <option value="fuzzy">Words, tolerate typos</option>
+                <option value="query">Query</option>
+                <option value="pattern">Path pattern</option>
+              </select>
+            </div>
+            <div className="relative">
+              <Input
+                ref={searchInputRef}
+                id="search"
+                type="search"
+                role="combobox"
+                aria-autocomplete="list"
+                aria-expanded={nameSuggestions.isOpen}
+                aria-controls={NAME_SUGGESTIONS_ID}
+                aria-activedescendant={
+                  nameSuggestions.isOpen && nameSuggestions.activeIndex >= 0
+                    ? nameSuggestionId(nameSuggestions.activeIndex)
+                    : undefined
+                }
+                placeholder={SEARCH_PLACEHOLDERS[searchMode]}
+                aria-invalid={searchError !== null}
+                value={searchQuery}
+                onChange={(e) => {
+                  setSearchQuery(e.target.value);
+                  nameSuggestions.open();
+                  // Ensure focus flag is set when user is typing
+                  wasInputFocusedRef.current = true;
+                }}
+                onKeyDown={nameSuggestions.handleKeyDown}
+                onFocus={() => {
+                  wasInputFocusedRef.current = true;
+                }}
+                onBlur={nameSuggestions.close}
+              />
+              {nameSuggestions.isOpen && (
+                <NameSuggestions
+                  suggestions={nameSuggestions.suggestions}
+                  activeIndex={nameSuggestions.activeIndex}
+                  onChoose={nameSuggestions.chooseSuggestion}
+                />
+              )}
+            </div>
+            {isSearchMode && !isSearching && searchCounts && (
+              <p className="flex gap-2 items-center text-sm text-muted-foreground">
+                <span>
+                  {searchCounts.total}{' '}
+                  {searchCounts.total === 1 ? 'match' : 'matches'}
+                </span>
+                <select
+                  aria-label="Level the matches are counted by"
+                  className="px-2 h-8 text-sm rounded-md border border-input bg-transparent"
+                  value={facetDepth}
+                  onChange={(e) => setFacetDepth(Number(e.target.value))}
+                >
+                  {[1, 2, 3, 4].map((depth) => (
+                    <option key={depth} value={depth}>
+                      Counted by level {depth}
+                    </option>
+                  ))}
+                </select>
+              </p>
+            )}
+            {isSearchMode && searchError && (
+              <p role="alert" className="text-sm text-destructive">
+                {searchError}
+              </p>
+            )}
+            {searchScope && (
+              <p className="flex gap-2 items-center text-sm text-muted-foreground">
+                <span className="truncate">
+                  Searching in {searchScope.name}
+                </span>
+                <button
+                  type="button"
+                  className="shrink-0 text-primary hover:underline"
+                  onClick={() => setSearchScope(null)}
+                >
+                  Search everywhere
+                </button>
+              </p>
+            )}
+            {isSearchMode && pathResolution && !pathResolution.found && (
+              <p className="text-sm text-muted-foreground">
+                No node at this path.
+                {pathResolution.longestPrefix &&
+                  ` Longest matching prefix: ${pathResolution.longestPrefix}`}
+              </p>
+            )}
+            {isSearchMode && !isSearching && suggestions.length > 0 && (
+              <p className="text-sm text-muted-foreground">
+                No matches. Did you mean{' '}
+                {suggestions.map((suggestion, index) => (
+                  <span key={suggestion}>
+                    {index > 0 && ', '}
+                    <button
+                      type="button"
+                      className="text-primary underline-offset-4 hover:underline"
+                      onClick={() => setSearchQuery(suggestion)}
+                    >
+                      {suggestion}
+                    </button>
+                  </span>
+                ))}
+                ?
+              </p>
+            )}
           </div>
+          {selectedHash && <Breadcrumbs hash={selectedHash} />}
           {displayIsLoading ? (
             <div>Loading tree...</div>
           ) : (
             <div>
               <TreeView
                 data={displayTreeData}
+                selectedItemId={selectedHash}
                 expandedNodes={expandedNodes}
                 onExpandedChange={handleExpandedChange}
                 onSelectChange={handleSelectChange}
                 onLoadMore={handleLoadMore}
-                renderItem={renderItem}
+                renderItem={renderItem ?? comparisonRenderItem}
+                // Edits update the lazy tree, search results are read-only
+                onRename={isSearchMode ? undefined : handleRename}
+                onAddChild={isSearchMode ? undefined : handleAddChild}
+                onDelete={isSearchMode ? undefined : handleDelete}
               />
             </div>
           )}
+          {editError && (
+            <p role="alert" className="text-sm text-destructive">
+              {editError}
+            </p>
+          )}
+          <NodeComparison
+            compareSource={compareSource}
+            comparison={comparison}
+          />
+          {selectedHash && <NodeDetails hash={selectedHash} />}
+          {selectedNode?.wnid && (
+            <SynsetOccurrences
+              node={{ ...selectedNode, wnid: selectedNode.wnid }}
+            />
+          )}
         </CardContent>
       </Card>
     </div>
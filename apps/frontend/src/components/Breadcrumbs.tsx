@@ -0,0 +1,88 @@
+import { Fragment, useEffect, useState } from 'react';
+import { useAtomValue } from 'jotai';
+import { fetchAncestors, type AncestorEntry } from '../services/treeApi';
+import { childrenSortAtom } from '../store/treeAtoms';
+import { useRevealNode } from '../hooks/useRevealNode';
+
+interface BreadcrumbsProps {
+  hash: string;
+}
+
+/**
+ * Shows the path from the root to the selected node
+ * Every ancestor can be revealed in the lazy tree
+ */
+export function Breadcrumbs({ hash }: BreadcrumbsProps) {
+  const revealNode = useRevealNode();
+  const sort = useAtomValue(childrenSortAtom);
+  const [chain, setChain] = useState<AncestorEntry[]>([]);
+
+  useEffect(() => {
+    // Ignore the response if another node got selected in the meantime
+    let isCurrent = true;
+
+    fetchAncestors(hash, sort)
+      .then((response) => {
+        if (isCurrent) {
+          setChain(response.data);
+        }
+      })
+      .catch((error) => {
+        console.error(`Failed to load ancestors of node ${hash}:`, error);
+      });
+
+    return () => {
+      isCurrent = false;
+    };
+  }, [hash, sort]);
+
+  // The previous chain stays until the new one is loaded, so the bar doesn't flicker
+  if (chain.length === 0) {
+    return null;
+  }
+
+  return (
+    <nav aria-label="Breadcrumb" className="text-sm text-muted-foreground">
+      <ol className="flex flex-wrap gap-1 items-center">
+        {chain.map((entry, index) => {
+          const isLast = index === chain.length - 1;
+          const position = `${entry.siblingIndex + 1} of ${entry.siblingCount}`;
+
+          return (
+            <Fragment key={entry.hash}>
+              <li className="min-w-0" title={position}>
+                {isLast ? (
+                  <span
+                    className="font-medium text-foreground"
+                    aria-current="page"
+                  >
+                    {entry.label}
+                  </span>
+                ) : (
+                  <button
+                    type="button"
+                    className="text-primary hover:underline"
+                    onClick={() => {
+                      revealNode(
+                        entry.hash,
+                        chain.slice(0, index).map((ancestor) => ancestor.hash)
+                      ).catch((error) => {
+                        console.error(
+                          `Failed to reveal node ${entry.hash}:`,
+                          error
+                        );
+                      });
+                    }}
+                  >
+                    {entry.label}
+                  </button>
+                )}
+              </li>
+              {!isLast && <li aria-hidden="true">&gt;</li>}
+            </Fragment>
+          );
+        })}
+      </ol>
+    </nav>
+  );
+}
@@ -0,0 +1,66 @@
+import type { NameSuggestion } from '../services/treeApi';
+
+// Element id of the list, for `aria-controls` of the search input
+export const NAME_SUGGESTIONS_ID = 'name-suggestions';
+
+/**
+ * Element id of a suggestion, for `aria-activedescendant` of the search input
+ */
+export function nameSuggestionId(index: number): string {
+  return `${NAME_SUGGESTIONS_ID}-${index}`;
+}
+
+interface NameSuggestionsProps {
+  suggestions: NameSuggestion[];
+  activeIndex: number;
+  onChoose: (suggestion: NameSuggestion) => void;
+}
+
+/**
+ * Autocomplete dropdown under the search input
+ * Shows every suggested synonym with its path and the number of nodes with the synonym
+ */
+export function NameSuggestions({
+  suggestions,
+  activeIndex,
+  onChoose,
+}: NameSuggestionsProps) {
+  return (
+    <ul
+      id={NAME_SUGGESTIONS_ID}
+      role="listbox"
+      className="overflow-auto absolute z-10 mt-1 w-full max-h-72 text-sm rounded-md border shadow-md bg-background"
+    >
+      {suggestions.map((suggestion, index) => (
+        <li
+          // A node can have several synonyms starting with the text
+          key={`${suggestion.hash}:${suggestion.synonym}`}
+          id={nameSuggestionId(index)}
+          role="option"
+          aria-selected={index === activeIndex}
+          className={`flex gap-2 items-start px-3 py-1.5 cursor-pointer ${
+            index === activeIndex ? 'bg-muted' : 'hover:bg-muted'
+          }`}
+          // Mouse down, so the input doesn't lose focus before the click
+          onMouseDown={(event) => {
+            event.preventDefault();
+            onChoose(suggestion);
+          }}
+        >
+          <div className="flex-1 min-w-0">
+            <div className="truncate">{suggestion.synonym}</div>
+            <div className="text-xs truncate text-muted-foreground">
+              {suggestion.path}
+            </div>
+          </div>
+          <span
+            title={`${suggestion.hitCount} nodes with this synonym`}
+            className="shrink-0 px-1.5 text-xs rounded-full bg-muted text-muted-foreground"
+          >
+            {suggestion.hitCount}
+          </span>
+        </li>
+      ))}
+    </ul>
+  );
+}
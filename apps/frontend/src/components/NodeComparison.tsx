@@ -0,0 +1,81 @@
+import { useSetAtom } from 'jotai';
+import {
+  compareSourceAtom,
+  comparisonAtom,
+  type CompareSource,
+} from '../store/treeAtoms';
+import type { NodeComparison as Comparison } from '../services/treeApi';
+
+interface NodeComparisonProps {
+  compareSource: CompareSource | null;
+  comparison: Comparison | null;
+}
+
+/**
+ * Shows a pending comparison, or how the two compared nodes are related:
+ * their common ancestor, the distance and the path from the ancestor down to each of them
+ */
+export function NodeComparison({
+  compareSource,
+  comparison,
+}: NodeComparisonProps) {
+  const setCompareSource = useSetAtom(compareSourceAtom);
+  const setComparison = useSetAtom(comparisonAtom);
+
+  if (compareSource) {
+    return (
+      <div className="flex gap-2 justify-between items-center text-sm">
+        <span className="text-muted-foreground">
+          Select a node to compare with {compareSource.label}
+        </span>
+        <button
+          type="button"
+          className="shrink-0 text-primary hover:underline"
+          onClick={() => setCompareSource(null)}
+        >
+          Cancel
+        </button>
+      </div>
+    );
+  }
+
+  if (!comparison) {
+    return null;
+  }
+
+  const { ancestor, chainA, chainB, distance } = comparison;
+  // Path from the common ancestor down to a node
+  const pathFromAncestor = (chain: Comparison['chainA']) =>
+    chain
+      .slice(ancestor.depth)
+      .map((entry) => entry.label)
+      .join(' > ');
+
+  return (
+    <div className="space-y-2 text-sm">
+      <div className="flex gap-2 justify-between items-start">
+        <span className="font-medium">
+          {chainA[chainA.length - 1].label} and{' '}
+          {chainB[chainB.length - 1].label}
+        </span>
+        <button
+          type="button"
+          className="shrink-0 text-primary hover:underline"
+          onClick={() => setComparison(null)}
+        >
+          Clear comparison
+        </button>
+      </div>
+      <dl className="grid grid-cols-2 gap-x-4 gap-y-1">
+        <dt className="text-muted-foreground">Common ancestor</dt>
+        <dd>{ancestor.label}</dd>
+        <dt className="text-muted-foreground">Distance</dt>
+        <dd>{distance}</dd>
+      </dl>
+      <ul className="space-y-1 text-muted-foreground break-words">
+        <li>{pathFromAncestor(chainA)}</li>
+        <li>{pathFromAncestor(chainB)}</li>
+      </ul>
+    </div>
+  );
+}
@@ -0,0 +1,168 @@
+import { useEffect, useState } from 'react';
+import { useAtomValue, useSetAtom } from 'jotai';
+import { fetchEntryDetail, type EntryDetail } from '../services/treeApi';
+import {
+  childrenSortAtom,
+  compareSourceAtom,
+  searchScopeAtom,
+} from '../store/treeAtoms';
+import { useRevealNode } from '../hooks/useRevealNode';
+
+interface NodeDetailsProps {
+  hash: string;
+}
+
+/**
+ * Shows the fields of the selected node, its position among its siblings
+ * and statistics of its subtree
+ */
+export function NodeDetails({ hash }: NodeDetailsProps) {
+  const revealNode = useRevealNode();
+  const sort = useAtomValue(childrenSortAtom);
+  const setSearchScope = useSetAtom(searchScopeAtom);
+  const setCompareSource = useSetAtom(compareSourceAtom);
+  const [detail, setDetail] = useState<EntryDetail | null>(null);
+
+  useEffect(() => {
+    // Ignore the response if another node got selected in the meantime
+    let isCurrent = true;
+
+    fetchEntryDetail(hash, sort)
+      .then((response) => {
+        if (isCurrent) {
+          setDetail(response.data);
+        }
+      })
+      .catch((error) => {
+        console.error(`Failed to load details of node ${hash}:`, error);
+      });
+
+    return () => {
+      isCurrent = false;
+    };
+  }, [hash, sort]);
+
+  if (!detail || detail.hash !== hash) {
+    return <div className="text-sm text-muted-foreground">Loading...</div>;
+  }
+
+  const { stats } = detail;
+  // Widest bar of the histogram
+  const maxNodes = Math.max(
+    ...stats.branchingHistogram.map((bucket) => bucket.nodes),
+    1
+  );
+
+  return (
+    <div className="space-y-3 text-sm">
+      <div>
+        <div className="flex gap-2 items-start justify-between">
+          <div className="font-medium">{detail.label}</div>
+          <div className="flex gap-3 shrink-0">
+            <button
+              type="button"
+              className="text-primary hover:underline"
+              onClick={() =>
+                setCompareSource({ hash: detail.hash, label: detail.label })
+              }
+            >
+              Compare with…
+            </button>
+            {detail.childCount > 0 && (
+              <button
+                type="button"
+                className="text-primary hover:underline"
+                onClick={() =>
+                  setSearchScope({ hash: detail.hash, name: detail.label })
+                }
+              >
+                Search in this branch
+              </button>
+            )}
+          </div>
+        </div>
+        {detail.gloss && (
+          <div className="text-muted-foreground">{detail.gloss}</div>
+        )}
+      </div>
+
+      <dl className="grid grid-cols-2 gap-x-4 gap-y-1">
+        {detail.synonyms.length > 0 && (
+          <>
+            <dt className="text-muted-foreground">Synonyms</dt>
+            <dd>{detail.synonyms.join(', ')}</dd>
+          </>
+        )}
+        {detail.wnid && (
+          <>
+            <dt className="text-muted-foreground">WordNet ID</dt>
+            <dd className="font-mono">{detail.wnid}</dd>
+          </>
+        )}
+        <dt className="text-muted-foreground">Depth</dt>
+        <dd>{detail.depth}</dd>
+        <dt className="text-muted-foreground">Position</dt>
+        <dd>
+          {detail.siblingIndex + 1} of {detail.siblingCount}
+        </dd>
+        <dt className="text-muted-foreground">Children</dt>
+        <dd>{detail.childCount}</dd>
+        <dt className="text-muted-foreground">Descendants</dt>
+        <dd>{detail.descendantCount}</dd>
+        <dt className="text-muted-foreground">Leaves</dt>
+        <dd>{stats.leafCount}</dd>
+        <dt className="text-muted-foreground">Levels below</dt>
+        <dd>{stats.maxDepth}</dd>
+      </dl>
+
+      {stats.branchingHistogram.length > 0 && (
+        <div className="space-y-1">
+          <div className="font-medium">Branching factor</div>
+          <ul className="space-y-0.5">
+            {stats.branchingHistogram.map((bucket) => (
+              <li key={bucket.childCount} className="flex gap-2 items-center">
+                <span className="w-10 text-right shrink-0 text-muted-foreground">
+                  {bucket.childCount}
+                </span>
+                <span
+                  className="h-2 rounded bg-primary"
+                  style={{ width: `${(bucket.nodes / maxNodes) * 100}%` }}
+                />
+                <span className="shrink-0">{bucket.nodes}</span>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      {stats.largestChildren.length > 0 && (
+        <div className="space-y-1">
+          <div className="font-medium">Largest children</div>
+          <ul className="space-y-0.5">
+            {stats.largestChildren.map((child) => (
+              <li key={child.hash} className="flex gap-2 items-start">
+                <button
+                  type="button"
+                  className="flex-1 min-w-0 text-left truncate text-primary hover:underline"
+                  onClick={() => {
+                    revealNode(child.hash).catch((error) => {
+                      console.error(
+                        `Failed to reveal node ${child.hash}:`,
+                        error
+                      );
+                    });
+                  }}
+                >
+                  {child.label}
+                </button>
+                <span className="shrink-0 text-muted-foreground">
+                  {child.size}
+                </span>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+    </div>
+  );
+}
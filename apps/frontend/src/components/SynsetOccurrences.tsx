@@ -0,0 +1,91 @@
+import { useEffect, useState } from 'react';
+import {
+  fetchSynsetOccurrences,
+  type SynsetOccurrence,
+  type TreeNodeData,
+} from '../services/treeApi';
+import { useRevealNode } from '../hooks/useRevealNode';
+
+interface SynsetOccurrencesProps {
+  node: TreeNodeData & { wnid: string };
+}
+
+/**
+ * Lists every place the synset of the selected node occurs in the tree
+ * Each occurrence can be revealed in the lazy tree
+ */
+export function SynsetOccurrences({ node }: SynsetOccurrencesProps) {
+  const revealNode = useRevealNode();
+  const [occurrences, setOccurrences] = useState<SynsetOccurrence[] | null>(
+    null
+  );
+  const [isLoading, setIsLoading] = useState(false);
+
+  // Reset the list when another node gets selected
+  useEffect(() => {
+    setOccurrences(null);
+  }, [node.hash]);
+
+  const loadOccurrences = async () => {
+    setIsLoading(true);
+    try {
+      const response = await fetchSynsetOccurrences(node.wnid);
+      setOccurrences(response.data);
+    } catch (error) {
+      console.error('Failed to load synset occurrences:', error);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  return (
+    <div className="space-y-2 text-sm">
+      <div className="flex justify-between items-center">
+        <span className="font-medium">
+          Occurrences of <span className="font-mono">{node.wnid}</span>
+        </span>
+        {occurrences === null && (
+          <button
+            type="button"
+            className="text-primary hover:underline disabled:opacity-50"
+            onClick={loadOccurrences}
+            disabled={isLoading}
+          >
+            {isLoading ? 'Loading...' : 'Show other occurrences'}
+          </button>
+        )}
+      </div>
+      {occurrences && (
+        <ul className="space-y-1">
+          {occurrences.map((occurrence) => (
+            <li key={occurrence.hash} className="flex gap-2 items-start">
+              <span className="flex-1 min-w-0 text-muted-foreground break-words">
+                {occurrence.path}
+              </span>
+              {occurrence.hash === node.hash ? (
+                <span className="shrink-0">(selected)</span>
+              ) : (
+                <button
+                  type="button"
+                  className="shrink-0 text-primary hover:underline"
+                  onClick={() => {
+                    revealNode(occurrence.hash, occurrence.ancestors).catch(
+                      (error) => {
+                        console.error(
+                          `Failed to reveal node ${occurrence.hash}:`,
+                          error
+                        );
+                      }
+                    );
+                  }}
+                >
+                  Go to
+                </button>
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,102 @@
+import { useCallback } from 'react';
+import { useAtomValue, useStore } from 'jotai';
+import {
+  childrenSortAtom,
+  expandedNodesAtom,
+  nodePaginationAtom,
+  nodeChildrenAtom,
+  nodesAtom,
+  setNodeAtom,
+  setNodeChildrenAtom,
+  setNodePaginationAtom,
+} from '../store/treeAtoms';
+import { fetchNodeChildren, type ChildrenSort } from '../services/treeApi';
+
+/**
+ * Hook to read and change the order children are loaded in
+ *
+ * Loaded pages are in the previous order and their cursors belong to it,
+ * so changing the sort drops them and reloads the first page of every expanded node.
+ * Reads atoms through the store, so a response of an outdated sort can be detected and dropped.
+ */
+export function useChildrenSort() {
+  const store = useStore();
+  const sort = useAtomValue(childrenSortAtom);
+
+  /**
+   * Loads the first page of children of a node in the given order
+   */
+  const reloadChildren = useCallback(
+    async (hash: string, nextSort: ChildrenSort) => {
+      store.set(setNodePaginationAtom, {
+        hash,
+        pagination: { hasMore: true, isLoading: true, isInitialized: false },
+      });
+
+      try {
+        const response = await fetchNodeChildren(
+          hash,
+          undefined,
+          undefined,
+          nextSort
+        );
+
+        // The sort was changed again while loading
+        if (store.get(childrenSortAtom) !== nextSort) {
+          return;
+        }
+
+        response.data.forEach((childNode) => {
+          store.set(setNodeAtom, childNode);
+        });
+        store.set(setNodeChildrenAtom, {
+          parentHash: hash,
+          childrenHashes: response.data.map((child) => child.hash),
+        });
+        store.set(setNodePaginationAtom, {
+          hash,
+          pagination: {
+            cursor: response.pagination.nextCursor,
+            hasMore: response.pagination.hasMore,
+            isLoading: false,
+            isInitialized: true,
+          },
+        });
+      } catch (error) {
+        console.error(`Failed to reload children for node ${hash}:`, error);
+        // Not initialized, expanding the node again retries
+        store.set(setNodePaginationAtom, {
+          hash,
+          pagination: { hasMore: true, isLoading: false, isInitialized: false },
+        });
+      }
+    },
+    [store]
+  );
+
+  const setSort = useCallback(
+    async (nextSort: ChildrenSort) => {
+      if (store.get(childrenSortAtom) === nextSort) {
+        return;
+      }
+
+      // Expanded nodes of the lazy tree whose children were already loaded
+      const paginationMap = store.get(nodePaginationAtom);
+      const nodes = store.get(nodesAtom);
+      const loadedExpanded = [...store.get(expandedNodesAtom)].filter(
+        (hash) => nodes.has(hash) && paginationMap.get(hash)?.isInitialized
+      );
+
+      store.set(childrenSortAtom, nextSort);
+      store.set(nodeChildrenAtom, new Map());
+      store.set(nodePaginationAtom, new Map());
+
+      await Promise.all(
+        loadedExpanded.map((hash) => reloadChildren(hash, nextSort))
+      );
+    },
+    [store, reloadChildren]
+  );
+
+  return { sort, setSort };
+}
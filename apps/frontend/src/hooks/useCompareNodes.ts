@@ -0,0 +1,64 @@
+import { useEffect } from 'react';
+import { useAtom, useAtomValue, useSetAtom } from 'jotai';
+import {
+  clearAllExpandedNodesAtom,
+  compareSourceAtom,
+  comparisonAtom,
+  selectedNodeHashAtom,
+} from '../store/treeAtoms';
+import { fetchLowestCommonAncestor } from '../services/treeApi';
+import { useRevealNode } from './useRevealNode';
+
+/**
+ * Hook comparing two nodes, started by "Compare with…" in the node details
+ * The next node selected after the start is compared with it: their lowest common ancestor
+ * is loaded, and only the paths of the two nodes stay expanded in the lazy tree.
+ */
+export function useCompareNodes() {
+  const selectedHash = useAtomValue(selectedNodeHashAtom);
+  const [compareSource, setCompareSource] = useAtom(compareSourceAtom);
+  const [comparison, setComparison] = useAtom(comparisonAtom);
+  const clearAllExpanded = useSetAtom(clearAllExpandedNodesAtom);
+  const revealNode = useRevealNode();
+
+  useEffect(() => {
+    if (
+      !compareSource ||
+      !selectedHash ||
+      selectedHash === compareSource.hash
+    ) {
+      return;
+    }
+
+    // Revealing the nodes selects them again, the comparison isn't pending anymore
+    setCompareSource(null);
+
+    fetchLowestCommonAncestor(compareSource.hash, selectedHash)
+      .then(async (response) => {
+        const { chainA, chainB } = response.data;
+        setComparison(response.data);
+
+        // Only the two paths stay expanded, the second node ends up selected
+        clearAllExpanded();
+        for (const chain of [chainA, chainB]) {
+          const node = chain[chain.length - 1];
+          await revealNode(
+            node.hash,
+            chain.slice(0, -1).map((ancestor) => ancestor.hash)
+          );
+        }
+      })
+      .catch((error) => {
+        console.error('Failed to compare nodes:', error);
+      });
+  }, [
+    compareSource,
+    selectedHash,
+    setCompareSource,
+    setComparison,
+    clearAllExpanded,
+    revealNode,
+  ]);
+
+  return { compareSource, comparison };
+}
@@ -0,0 +1,426 @@
+import { useCallback, useState } from 'react';
+import { useStore } from 'jotai';
+import type { TreeDataItem } from '@homework/ui/tree-view';
+import {
+  expandedNodesAtom,
+  nodeChildrenAtom,
+  nodePaginationAtom,
+  nodesAtom,
+  rootNodeHashAtom,
+  selectedNodeHashAtom,
+  setNodeExpandedAtom,
+  setNodePaginationAtom,
+} from '../store/treeAtoms';
+import {
+  createChildEntry,
+  deleteEntry,
+  EntryEditError,
+  renameEntry,
+  type TreeNodeData,
+} from '../services/treeApi';
+import { splitNodeName } from '../utils/nodeLabel';
+
+// Prefix of the temporary hashes of added children the server hasn't confirmed yet
+const PENDING_HASH_PREFIX = 'pending:';
+
+// Number of children added so far, numbers the temporary hashes
+let pendingCount = 0;
+
+/**
+ * Checks whether a node is an added child the server hasn't confirmed yet,
+ * it has no hash the server knows, so it can't be edited
+ */
+export function isPendingEntry(hash: string): boolean {
+  return hash.startsWith(PENDING_HASH_PREFIX);
+}
+
+/**
+ * Entries to write to `nodesAtom` and `nodeChildrenAtom`, undefined removes an entry
+ */
+interface TreePatch {
+  nodes: Map<string, TreeNodeData | undefined>;
+  children: Map<string, string[] | undefined>;
+}
+
+/**
+ * Copies a map with the patched entries
+ */
+function patchMap<T>(
+  map: Map<string, T>,
+  patch: Map<string, T | undefined>
+): Map<string, T> {
+  const patched = new Map(map);
+  for (const [key, value] of patch) {
+    if (value === undefined) {
+      patched.delete(key);
+    } else {
+      patched.set(key, value);
+    }
+  }
+  return patched;
+}
+
+/**
+ * Changes the counts of the loaded ancestors of a node (and the node itself) in a patch,
+ * the same way the server does
+ * @param nodes - The loaded nodes
+ * @param hash - The lowest node to change
+ * @param nodeDelta - Change of the size and descendant count
+ * @param leafDelta - Change of the leaf count
+ * @param patch - The node entries of the patch, changed ones are changed again
+ */
+function adjustLoadedAncestors(
+  nodes: Map<string, TreeNodeData>,
+  hash: string,
+  nodeDelta: number,
+  leafDelta: number,
+  patch: Map<string, TreeNodeData | undefined>
+): void {
+  let current = nodes.get(hash);
+  while (current) {
+    const node = patch.get(current.hash) ?? current;
+    patch.set(node.hash, {
+      ...node,
+      size: node.size + nodeDelta,
+      descendantCount: node.descendantCount + nodeDelta,
+      leafCount: node.leafCount + leafDelta,
+    });
+    current = node.parentHash ? nodes.get(node.parentHash) : undefined;
+  }
+}
+
+/**
+ * Gets the error message of a rejected write
+ */
+function getEditErrorMessage(error: unknown, fallback: string): string {
+  return error instanceof EntryEditError ? error.message : fallback;
+}
+
+/**
+ * Hook editing the lazy tree: renaming, adding a child and deleting a node
+ *
+ * Every edit is applied to `nodesAtom` and `nodeChildrenAtom` right away and rolled back
+ * if the server rejects it. Renames change the hashes of the whole subtree, so the loaded
+ * descendants of a renamed node are dropped and load again when it's expanded.
+ * Reads atoms through the store, so every step sees the state written by the previous one.
+ */
+export function useEntryEditing() {
+  const store = useStore();
+  const [editError, setEditError] = useState<string | null>(null);
+
+  /**
+   * Writes a patch to the atoms
+   * @returns The patch restoring the previous entries
+   */
+  const applyPatch = useCallback(
+    (patch: TreePatch): TreePatch => {
+      const nodes = store.get(nodesAtom);
+      const children = store.get(nodeChildrenAtom);
+      const undo: TreePatch = {
+        nodes: new Map([...patch.nodes.keys()].map((k) => [k, nodes.get(k)])),
+        children: new Map(
+          [...patch.children.keys()].map((k) => [k, children.get(k)])
+        ),
+      };
+
+      store.set(nodesAtom, patchMap(nodes, patch.nodes));
+      store.set(nodeChildrenAtom, patchMap(children, patch.children));
+      return undo;
+    },
+    [store]
+  );
+
+  /**
+   * Forgets the loaded subtree of a node: the nodes below it, the children lists,
+   * pagination and expanded state of the node and its descendants
+   * @returns The hashes of the node and its loaded descendants
+   */
+  const dropLoadedSubtree = useCallback(
+    (hash: string): Set<string> => {
+      const children = store.get(nodeChildrenAtom);
+      const dropped = new Set<string>();
+      const queue = [hash];
+      while (queue.length > 0) {
+        const current = queue.pop() as string;
+        dropped.add(current);
+        queue.push(...(children.get(current) || []));
+      }
+
+      const descendants = [...dropped].filter((h) => h !== hash);
+      applyPatch({
+        nodes: new Map(descendants.map((h) => [h, undefined])),
+        children: new Map([...dropped].map((h) => [h, undefined])),
+      });
+      store.set(
+        nodePaginationAtom,
+        patchMap(
+          store.get(nodePaginationAtom),
+          new Map([...dropped].map((h) => [h, undefined]))
+        )
+      );
+      store.set(
+        expandedNodesAtom,
+        new Set(
+          [...store.get(expandedNodesAtom)].filter((h) => !dropped.has(h))
+        )
+      );
+
+      return dropped;
+    },
+    [store, applyPatch]
+  );
+
+  /**
+   * Renames a node, its new name shows right away
+   */
+  const handleRename = useCallback(
+    async (item: TreeDataItem, name: string) => {
+      const node = store.get(nodesAtom).get(item.id);
+      if (!node) {
+        return;
+      }
+      setEditError(null);
+
+      const undo = applyPatch({
+        nodes: new Map([
+          [node.hash, { ...node, name, ...splitNodeName(name) }],
+        ]),
+        children: new Map(),
+      });
+
+      try {
+        const { data } = await renameEntry(node.hash, name);
+        if (data.hash === node.hash) {
+          applyPatch({
+            nodes: new Map([[node.hash, data]]),
+            children: new Map(),
+          });
+          return;
+        }
+
+        // The node and its subtree have new hashes
+        const dropped = dropLoadedSubtree(node.hash);
+        const siblings = node.parentHash
+          ? store.get(nodeChildrenAtom).get(node.parentHash)
+          : undefined;
+        applyPatch({
+          nodes: new Map([
+            [node.hash, undefined],
+            [data.hash, data],
+          ]),
+          children: new Map(
+            node.parentHash && siblings
+              ? [
+                  [
+                    node.parentHash,
+                    siblings.map((h) => (h === node.hash ? data.hash : h)),
+                  ],
+                ]
+              : []
+          ),
+        });
+
+        if (!node.parentHash) {
+          store.set(rootNodeHashAtom, data.hash);
+        }
+        const selectedHash = store.get(selectedNodeHashAtom);
+        if (selectedHash && dropped.has(selectedHash)) {
+          store.set(selectedNodeHashAtom, data.hash);
+        }
+      } catch (error) {
+        applyPatch(undo);
+        setEditError(getEditErrorMessage(error, 'Failed to rename the entry'));
+      }
+    },
+    [store, applyPatch, dropLoadedSubtree]
+  );
+
+  /**
+   * Adds a leaf under a node, shown at the end of its children until the server confirms it
+   */
+  const handleAddChild = useCallback(
+    async (item: TreeDataItem, name: string) => {
+      const nodes = store.get(nodesAtom);
+      const parent = nodes.get(item.id);
+      if (!parent) {
+        return;
+      }
+      setEditError(null);
+
+      // A leaf stops being one, the new child takes its place in the leaf counts above
+      const wasLeaf = parent.childCount === 0;
+      const patch: TreePatch = { nodes: new Map(), children: new Map() };
+      adjustLoadedAncestors(
+        nodes,
+        parent.hash,
+        1,
+        wasLeaf ? 0 : 1,
+        patch.nodes
+      );
+      const counted = patch.nodes.get(parent.hash) as TreeNodeData;
+      patch.nodes.set(parent.hash, {
+        ...counted,
+        childCount: counted.childCount + 1,
+        leafCount: counted.leafCount + (wasLeaf ? 1 : 0),
+      });
+
+      // Only shown among loaded children, otherwise it's loaded with them
+      // Unique, two children with the same name can be pending at once
+      const pendingHash = `${PENDING_HASH_PREFIX}${++pendingCount}`;
+      const isShown =
+        wasLeaf ||
+        !!store.get(nodePaginationAtom).get(parent.hash)?.isInitialized;
+      if (isShown) {
+        patch.nodes.set(pendingHash, {
+          hash: pendingHash,
+          parentHash: parent.hash,
+          name,
+          ...splitNodeName(name),
+          size: 0,
+          childCount: 0,
+          descendantCount: 0,
+          leafCount: 0,
+          depth: parent.depth + 1,
+          ordinal: 0,
+          wnid: null,
+          gloss: null,
+          attributes: {},
+        });
+        patch.children.set(parent.hash, [
+          ...(store.get(nodeChildrenAtom).get(parent.hash) || []),
+          pendingHash,
+        ]);
+      }
+      const undo = applyPatch(patch);
+      // Restored with the patch if the server rejects the child
+      const previousPagination = store.get(nodePaginationAtom).get(parent.hash);
+      const wasExpanded = store.get(expandedNodesAtom).has(parent.hash);
+
+      if (wasLeaf) {
+        // Nothing else to load under a former leaf
+        store.set(setNodePaginationAtom, {
+          hash: parent.hash,
+          pagination: { hasMore: false, isLoading: false, isInitialized: true },
+        });
+      }
+      if (isShown) {
+        store.set(setNodeExpandedAtom, { hash: parent.hash, expanded: true });
+      }
+
+      try {
+        const { data } = await createChildEntry(parent.hash, name);
+        const siblings = store.get(nodeChildrenAtom).get(parent.hash);
+        applyPatch({
+          nodes: new Map([
+            [pendingHash, undefined],
+            [data.hash, data],
+          ]),
+          children: new Map(
+            isShown && siblings
+              ? [
+                  [
+                    parent.hash,
+                    siblings.map((h) => (h === pendingHash ? data.hash : h)),
+                  ],
+                ]
+              : []
+          ),
+        });
+        store.set(selectedNodeHashAtom, data.hash);
+      } catch (error) {
+        applyPatch(undo);
+        store.set(
+          nodePaginationAtom,
+          patchMap(
+            store.get(nodePaginationAtom),
+            new Map([[parent.hash, previousPagination]])
+          )
+        );
+        store.set(setNodeExpandedAtom, {
+          hash: parent.hash,
+          expanded: wasExpanded,
+        });
+        setEditError(getEditErrorMessage(error, 'Failed to add the entry'));
+      }
+    },
+    [store, applyPatch]
+  );
+
+  /**
+   * Deletes a node after a confirmation, with its subtree if it has children
+   */
+  const handleDelete = useCallback(
+    async (item: TreeDataItem) => {
+      const nodes = store.get(nodesAtom);
+      const node = nodes.get(item.id);
+      // The root can't be deleted
+      if (!node?.parentHash) {
+        return;
+      }
+
+      const hasChildren = node.childCount > 0;
+      if (
+        !window.confirm(
+          hasChildren
+            ? `Delete "${node.label}" with its ${node.descendantCount} descendants?`
+            : `Delete "${node.label}"?`
+        )
+      ) {
+        return;
+      }
+      setEditError(null);
+
+      // A parent left without children becomes a leaf itself
+      const parentHash = node.parentHash;
+      const becomesLeaf = nodes.get(parentHash)?.childCount === 1;
+      const patch: TreePatch = {
+        nodes: new Map([[node.hash, undefined]]),
+        children: new Map(),
+      };
+      adjustLoadedAncestors(
+        nodes,
+        parentHash,
+        -(node.descendantCount + 1),
+        -(hasChildren ? node.leafCount : 1) + (becomesLeaf ? 1 : 0),
+        patch.nodes
+      );
+      const parent = patch.nodes.get(parentHash);
+      if (parent) {
+        patch.nodes.set(parentHash, {
+          ...parent,
+          childCount: parent.childCount - 1,
+          leafCount: parent.leafCount - (becomesLeaf ? 1 : 0),
+        });
+      }
+      const siblings = store.get(nodeChildrenAtom).get(parentHash);
+      if (siblings) {
+        patch.children.set(
+          parentHash,
+          siblings.filter((h) => h !== node.hash)
+        );
+      }
+      const undo = applyPatch(patch);
+
+      try {
+        await deleteEntry(node.hash, hasChildren);
+
+        const dropped = dropLoadedSubtree(node.hash);
+        const selectedHash = store.get(selectedNodeHashAtom);
+        if (selectedHash && dropped.has(selectedHash)) {
+          store.set(selectedNodeHashAtom, parentHash);
+        }
+      } catch (error) {
+        applyPatch(undo);
+        setEditError(getEditErrorMessage(error, 'Failed to delete the entry'));
+      }
+    },
+    [store, applyPatch, dropLoadedSubtree]
+  );
+
+  return {
+    handleRename,
+    handleAddChild,
+    handleDelete,
+    editError,
+  };
+}
@@ -0,0 +1,125 @@
+import { useCallback, useEffect, useState, type KeyboardEvent } from 'react';
+import { useAtomValue, useSetAtom } from 'jotai';
+import { searchModeAtom, searchQueryAtom } from '../store/treeAtoms';
+import { fetchNameSuggestions, type NameSuggestion } from '../services/treeApi';
+import { isPathQuery } from '../utils/pathQuery';
+import { useRevealNode } from './useRevealNode';
+
+// Shorter than the search debounce, suggestions are cheap
+const SUGGEST_DEBOUNCE_MS = 100;
+
+/**
+ * Hook for the autocomplete dropdown of the search input
+ * Suggests names starting with the typed text, only for word searches (not paths, queries or patterns).
+ * Arrow keys move through the suggestions, Enter jumps to the active one, Escape closes the dropdown.
+ */
+export function useNameSuggestions() {
+  const searchQuery = useAtomValue(searchQueryAtom);
+  const searchMode = useAtomValue(searchModeAtom);
+  const setSearchQuery = useSetAtom(searchQueryAtom);
+  const revealNode = useRevealNode();
+  const [suggestions, setSuggestions] = useState<NameSuggestion[]>([]);
+  const [activeIndex, setActiveIndex] = useState(-1);
+  const [isOpen, setIsOpen] = useState(false);
+
+  useEffect(() => {
+    const prefix = searchQuery.trim();
+    const isWordSearch = searchMode === 'exact' || searchMode === 'fuzzy';
+
+    setActiveIndex(-1);
+    if (prefix === '' || !isWordSearch || isPathQuery(prefix)) {
+      setSuggestions([]);
+      return;
+    }
+
+    // Ignore the response if the query changed in the meantime
+    let isCurrent = true;
+    const timeoutId = setTimeout(() => {
+      fetchNameSuggestions(prefix)
+        .then((response) => {
+          if (isCurrent) {
+            setSuggestions(response.data);
+          }
+        })
+        .catch((error) => {
+          console.error('Failed to load suggestions:', error);
+        });
+    }, SUGGEST_DEBOUNCE_MS);
+
+    return () => {
+      isCurrent = false;
+      clearTimeout(timeoutId);
+    };
+  }, [searchQuery, searchMode]);
+
+  /**
+   * Jumps to the node of a suggestion in the lazy tree
+   */
+  const chooseSuggestion = useCallback(
+    (suggestion: NameSuggestion) => {
+      setIsOpen(false);
+      revealNode(suggestion.hash)
+        .then(() => {
+          // A query too short for search mode is still in the input
+          setSearchQuery('');
+        })
+        .catch((error) => {
+          console.error(`Failed to reveal node ${suggestion.hash}:`, error);
+        });
+    },
+    [revealNode, setSearchQuery]
+  );
+
+  /**
+   * Keyboard navigation of the dropdown, for the `onKeyDown` of the search input
+   */
+  const handleKeyDown = useCallback(
+    (event: KeyboardEvent<HTMLInputElement>) => {
+      if (!isOpen || suggestions.length === 0) {
+        // Arrow down reopens a dropdown closed with Escape
+        if (event.key === 'ArrowDown' && suggestions.length > 0) {
+          event.preventDefault();
+          setIsOpen(true);
+        }
+        return;
+      }
+
+      switch (event.key) {
+        case 'ArrowDown':
+          event.preventDefault();
+          setActiveIndex((index) => (index + 1) % suggestions.length);
+          break;
+        case 'ArrowUp':
+          event.preventDefault();
+          setActiveIndex((index) =>
+            index <= 0 ? suggestions.length - 1 : index - 1
+          );
+          break;
+        case 'Enter':
+          if (activeIndex >= 0) {
+            event.preventDefault();
+            chooseSuggestion(suggestions[activeIndex]);
+          }
+          break;
+        case 'Escape':
+          event.preventDefault();
+          setIsOpen(false);
+          break;
+      }
+    },
+    [isOpen, suggestions, activeIndex, chooseSuggestion]
+  );
+
+  const open = useCallback(() => setIsOpen(true), []);
+  const close = useCallback(() => setIsOpen(false), []);
+
+  return {
+    suggestions,
+    activeIndex,
+    isOpen: isOpen && suggestions.length > 0,
+    open,
+    close,
+    chooseSuggestion,
+    handleKeyDown,
+  };
+}
@@ -0,0 +1,148 @@
+import { useCallback } from 'react';
+import { useSetAtom, useStore } from 'jotai';
+import {
+  nodeChildrenAtom,
+  nodePaginationAtom,
+  searchQueryAtom,
+  isSearchModeAtom,
+  selectedNodeHashAtom,
+  setNodeAtom,
+  setNodeChildrenAtom,
+  appendNodeChildrenAtom,
+  setNodePaginationAtom,
+  setMultipleNodesExpandedAtom,
+  childrenSortAtom,
+} from '../store/treeAtoms';
+import { fetchAncestors, fetchNodeChildren } from '../services/treeApi';
+
+// Page size used while looking for a node on the path
+const PAGE_SIZE = 100;
+
+/**
+ * Hook to reveal an arbitrary node in the lazy tree
+ *
+ * Walks the ancestor chain from the root and loads children page by page
+ * until the next node on the path is loaded, then expands the whole path and selects the node.
+ * Without a known chain it's fetched from `/entries/:hash/ancestors`, the sibling positions
+ * let every parent load up to the next node in a single page.
+ * Reads atoms through the store, so every step sees the state written by the previous one.
+ */
+export function useRevealNode() {
+  const store = useStore();
+  const setSearchQuery = useSetAtom(searchQueryAtom);
+
+  /**
+   * Loads children of a parent until the given child is loaded
+   * @param siblingIndex - Position of the child in the current sort, if known
+   */
+  const loadUntilChild = useCallback(
+    async (parentHash: string, childHash: string, siblingIndex?: number) => {
+      const loadedChildren = store.get(nodeChildrenAtom).get(parentHash) || [];
+      if (loadedChildren.includes(childHash)) {
+        return;
+      }
+
+      const pagination = store.get(nodePaginationAtom).get(parentHash);
+      let cursor = pagination?.isInitialized ? pagination.cursor : undefined;
+
+      // Everything is loaded and the child is still not there
+      if (pagination?.isInitialized && !pagination.hasMore) {
+        throw new Error(`Node ${childHash} not found under ${parentHash}`);
+      }
+
+      let found = false;
+      let hasMore = true;
+      while (!found && hasMore) {
+        // Without a cursor the first page replaces the loaded children
+        const loadedCount = cursor
+          ? (store.get(nodeChildrenAtom).get(parentHash) || []).length
+          : 0;
+        // Load up to the child at once when its position is known
+        const limit =
+          siblingIndex !== undefined
+            ? Math.max(PAGE_SIZE, siblingIndex + 1 - loadedCount)
+            : PAGE_SIZE;
+
+        const response = await fetchNodeChildren(
+          parentHash,
+          cursor,
+          limit,
+          store.get(childrenSortAtom)
+        );
+
+        response.data.forEach((childNode) => {
+          store.set(setNodeAtom, childNode);
+        });
+
+        const childrenHashes = response.data.map((child) => child.hash);
+        store.set(cursor ? appendNodeChildrenAtom : setNodeChildrenAtom, {
+          parentHash,
+          childrenHashes,
+        });
+
+        store.set(setNodePaginationAtom, {
+          hash: parentHash,
+          pagination: {
+            cursor: response.pagination.nextCursor,
+            hasMore: response.pagination.hasMore,
+            isLoading: false,
+            isInitialized: true,
+          },
+        });
+
+        found = childrenHashes.includes(childHash);
+        hasMore = response.pagination.hasMore;
+        cursor = response.pagination.nextCursor;
+      }
+
+      if (!found) {
+        throw new Error(`Node ${childHash} not found under ${parentHash}`);
+      }
+    },
+    [store]
+  );
+
+  /**
+   * Reveals a node in the lazy tree
+   * @param hash - The node to reveal
+   * @param ancestors - Ancestor hashes ordered from the root down to the parent (fetched if not given)
+   */
+  const revealNode = useCallback(
+    async (hash: string, ancestors?: string[]) => {
+      // The node is revealed in the lazy tree, leave search mode first
+      if (store.get(isSearchModeAtom)) {
+        setSearchQuery('');
+        // Wait for the render that clears the search expanded state
+        await new Promise((resolve) => requestAnimationFrame(resolve));
+      }
+
+      let chain: { hash: string; siblingIndex?: number }[];
+      if (ancestors) {
+        chain = [...ancestors, hash].map((chainHash) => ({ hash: chainHash }));
+      } else {
+        const response = await fetchAncestors(
+          hash,
+          store.get(childrenSortAtom)
+        );
+        chain = response.data;
+      }
+
+      for (let i = 0; i < chain.length - 1; i++) {
+        await loadUntilChild(
+          chain[i].hash,
+          chain[i + 1].hash,
+          chain[i + 1].siblingIndex
+        );
+      }
+
+      store.set(setMultipleNodesExpandedAtom, {
+        hashes: chain.slice(0, -1).map((ancestor) => ancestor.hash),
+        expanded: true,
+      });
+      store.set(selectedNodeHashAtom, hash);
+    },
+    [store, setSearchQuery, loadUntilChild]
+  );
+
+  return revealNode;
+}
@@ -4,20 +4,91 @@ import {
   searchQueryAtom,
   searchResultsAtom,
   searchPaginationAtom,
+  searchCountsAtom,
+  searchErrorAtom,
+  searchFacetDepthAtom,
+  searchModeAtom,
+  searchScopeAtom,
+  searchSuggestionsAtom,
+  pathResolutionAtom,
 } from '../store/treeAtoms';
-import { searchEntries } from '../services/treeApi';
+import {
+  fetchAncestors,
+  resolvePath,
+  searchEntries,
+  SearchQueryError,
+  type TreeNodeData,
+} from '../services/treeApi';
+import { isPathQuery } from '../utils/pathQuery';
 
 /**
  * Hook for managing search functionality
  * Handles debounced search, pagination, and state management
+ * Queries containing " > " are resolved as paths instead of searched by name,
+ * except structured queries and path patterns, which the server handles
+ * A search without matches gets "did you mean" suggestions
+ * The search can be limited to the branch of a node (the search scope)
+ * The first page also brings the match counts, in total and by ancestor at the facet depth
  */
 export function useSearch() {
   const searchQuery = useAtomValue(searchQueryAtom);
   const searchResults = useAtomValue(searchResultsAtom);
   const pagination = useAtomValue(searchPaginationAtom);
+  const searchMode = useAtomValue(searchModeAtom);
+  const searchScope = useAtomValue(searchScopeAtom);
+  const suggestions = useAtomValue(searchSuggestionsAtom);
+  const searchError = useAtomValue(searchErrorAtom);
+  const searchCounts = useAtomValue(searchCountsAtom);
+  const facetDepth = useAtomValue(searchFacetDepthAtom);
   const setSearchQuery = useSetAtom(searchQueryAtom);
   const setSearchResults = useSetAtom(searchResultsAtom);
   const setPagination = useSetAtom(searchPaginationAtom);
+  const setSearchMode = useSetAtom(searchModeAtom);
+  const setSearchScope = useSetAtom(searchScopeAtom);
+  const setSuggestions = useSetAtom(searchSuggestionsAtom);
+  const setSearchError = useSetAtom(searchErrorAtom);
+  const setSearchCounts = useSetAtom(searchCountsAtom);
+  const setFacetDepth = useSetAtom(searchFacetDepthAtom);
+  const setPathResolution = useSetAtom(pathResolutionAtom);
+
+  /**
+   * Resolves a path query and shows the matched nodes (or the longest matched prefix) as a tree
+   */
+  const performPathResolution = useCallback(
+    async (query: string) => {
+      setPagination({ hasMore: false, isLoading: true });
+
+      try {
+        const resolution = await resolvePath(query);
+        const resolved =
+          resolution.data.length > 0
+            ? resolution.data
+            : resolution.longestPrefix?.data ?? [];
+
+        // The search tree needs the whole chain of every resolved node, each chain ends with the node
+        const chains = await Promise.all(
+          resolved.map((node) => fetchAncestors(node.hash))
+        );
+        const entries = new Map<string, TreeNodeData>();
+        chains.forEach((chain) =>
+          chain.data.forEach((entry) => entries.set(entry.hash, entry))
+        );
+
+        setSearchResults([...entries.values()]);
+        setPathResolution({
+          found: resolution.data.length > 0,
+          longestPrefix: resolution.longestPrefix?.path ?? null,
+        });
+      } catch (error) {
+        console.error('Path resolution error:', error);
+        setSearchResults([]);
+        setPathResolution(null);
+      } finally {
+        setPagination({ hasMore: false, isLoading: false });
+      }
+    },
+    [setSearchResults, setPagination, setPathResolution]
+  );
 
   /**
    * Performs a search with the given query
@@ -29,6 +100,7 @@ export function useSearch() {
       // Don't search if query is too short
       if (trimmedQuery.length <= 3) {
         setSearchResults([]);
+        setSuggestions([]);
         setPagination({
           hasMore: false,
           isLoading: false,
@@ -43,7 +115,14 @@ export function useSearch() {
       }));
 
       try {
-        const response = await searchEntries(trimmedQuery, cursor);
+        const response = await searchEntries(
+          trimmedQuery,
+          cursor,
+          undefined,
+          searchMode,
+          { under: searchScope?.hash },
+          append ? undefined : facetDepth
+        );
 
         if (append) {
           // Append results for pagination
@@ -51,6 +130,20 @@ export function useSearch() {
         } else {
           // Replace results for new search
           setSearchResults(response.data);
+          setSuggestions(response.suggestions ?? []);
+          setSearchCounts(
+            response.total !== undefined
+              ? {
+                  total: response.total,
+                  facets: Object.fromEntries(
+                    (response.facets ?? []).map((facet) => [
+                      facet.hash,
+                      facet.count,
+                    ])
+                  ),
+                }
+              : null
+          );
         }
 
         // Update pagination state
@@ -60,7 +153,11 @@ export function useSearch() {
           isLoading: false,
         });
       } catch (error) {
-        console.error('Search error:', error);
+        if (error instanceof SearchQueryError) {
+          setSearchError(error.message);
+        } else {
+          console.error('Search error:', error);
+        }
         setPagination((prev) => ({
           ...prev,
           isLoading: false,
@@ -68,16 +165,36 @@ export function useSearch() {
         // Clear results on error
         if (!append) {
           setSearchResults([]);
+          setSuggestions([]);
         }
       }
     },
-    [setSearchResults, setPagination]
+    [
+      searchMode,
+      searchScope,
+      facetDepth,
+      setSearchResults,
+      setSuggestions,
+      setSearchError,
+      setSearchCounts,
+      setPagination,
+    ]
   );
 
   // Debounced search effect
   useEffect(() => {
     const trimmedQuery = searchQuery.trim();
 
+    const isPath =
+      (searchMode === 'exact' || searchMode === 'fuzzy') &&
+      isPathQuery(trimmedQuery);
+    if (!isPath) {
+      setPathResolution(null);
+    }
+    setSuggestions([]);
+    setSearchError(null);
+    setSearchCounts(null);
+
     // Clear results if query is too short
     if (trimmedQuery.length <= 3) {
       setSearchResults([]);
@@ -90,13 +207,28 @@ export function useSearch() {
 
     // Debounce search by 300ms
     const timeoutId = setTimeout(() => {
-      performSearch(trimmedQuery);
+      if (isPath) {
+        performPathResolution(trimmedQuery);
+      } else {
+        performSearch(trimmedQuery);
+      }
     }, 300);
 
     return () => {
       clearTimeout(timeoutId);
     };
-  }, [searchQuery, performSearch, setSearchResults, setPagination]);
+  }, [
+    searchQuery,
+    searchMode,
+    performSearch,
+    performPathResolution,
+    setSearchResults,
+    setSuggestions,
+    setSearchError,
+    setSearchCounts,
+    setPagination,
+    setPathResolution,
+  ]);
 
   /**
    * Load more search results (pagination)
@@ -117,6 +249,15 @@ export function useSearch() {
     searchQuery,
     setSearchQuery,
     searchResults,
+    searchMode,
+    setSearchMode,
+    searchScope,
+    setSearchScope,
+    suggestions,
+    searchError,
+    searchCounts,
+    facetDepth,
+    setFacetDepth,
     isSearching: pagination.isLoading,
     hasMore: pagination.hasMore,
     loadMoreSearchResults,
@@ -1,6 +1,6 @@
 import { useMemo } from 'react';
 import { useAtomValue } from 'jotai';
-import { searchResultsAtom } from '../store/treeAtoms';
+import { searchResultsAtom, displayCountAtom } from '../store/treeAtoms';
 import { buildTree } from '../utils/treeBuilder';
 import { TreeDataItem } from '@homework/ui/tree-view';
 
@@ -10,14 +10,15 @@ import { TreeDataItem } from '@homework/ui/tree-view';
  */
 export function useSearchTree(): TreeDataItem[] {
   const searchResults = useAtomValue(searchResultsAtom);
+  const displayCount = useAtomValue(displayCountAtom);
 
   const treeData = useMemo(() => {
     if (searchResults.length === 0) {
       return [];
     }
 
-    return buildTree(searchResults);
-  }, [searchResults]);
+    return buildTree(searchResults, displayCount);
+  }, [searchResults, displayCount]);
 
   return treeData;
 }
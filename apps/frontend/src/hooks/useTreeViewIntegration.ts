@@ -6,16 +6,22 @@ import {
   setNodeExpandedAtom,
   nodePaginationAtom,
   isSearchModeAtom,
+  selectedNodeHashAtom,
+  childrenSortAtom,
 } from '../store/treeAtoms';
-import { fetchNodeChildren } from '../services/treeApi';
+import { fetchNodeChildren, fetchSubtree } from '../services/treeApi';
 import {
   setNodeAtom,
+  setMultipleNodesAtom,
   setNodeChildrenAtom,
   appendNodeChildrenAtom,
   setNodePaginationAtom,
 } from '../store/treeAtoms';
 import { TreeDataItem } from '@homework/ui/tree-view';
 
+// Levels loaded when a node is expanded, so expanding its children doesn't need another request
+const PREFETCH_DEPTH = 2;
+
 /**
  * Hook to integrate TreeView component with lazy loading
  * Handles expansion events and triggers child loading
@@ -28,11 +34,14 @@ export function useTreeViewIntegration(loadMoreSearchResults?: () => void) {
   const expandedSet = useAtomValue(expandedNodesAtom);
   const paginationMap = useAtomValue(nodePaginationAtom);
   const isSearchMode = useAtomValue(isSearchModeAtom);
+  const sort = useAtomValue(childrenSortAtom);
   const setExpanded = useSetAtom(setNodeExpandedAtom);
   const setNode = useSetAtom(setNodeAtom);
+  const setMultipleNodes = useSetAtom(setMultipleNodesAtom);
   const setChildren = useSetAtom(setNodeChildrenAtom);
   const appendChildren = useSetAtom(appendNodeChildrenAtom);
   const setPagination = useSetAtom(setNodePaginationAtom);
+  const setSelectedHash = useSetAtom(selectedNodeHashAtom);
 
   /**
    * Loads children for a node
@@ -65,7 +74,7 @@ export function useTreeViewIntegration(loadMoreSearchResults?: () => void) {
       });
 
       try {
-        const response = await fetchNodeChildren(hash, cursor, limit);
+        const response = await fetchNodeChildren(hash, cursor, limit, sort);
 
         // Store all new nodes
         response.data.forEach((childNode) => {
@@ -113,7 +122,91 @@ export function useTreeViewIntegration(loadMoreSearchResults?: () => void) {
         throw error;
       }
     },
-    [nodes, paginationMap, setNode, setChildren, appendChildren, setPagination]
+    [
+      nodes,
+      paginationMap,
+      sort,
+      setNode,
+      setChildren,
+      appendChildren,
+      setPagination,
+    ]
+  );
+
+  /**
+   * Loads the first pages of children of a node and its descendants, PREFETCH_DEPTH levels deep
+   */
+  const loadSubtree = useCallback(
+    async (hash: string, limit = 100) => {
+      const pagination = paginationMap.get(hash) || {
+        hasMore: false,
+        isLoading: false,
+        isInitialized: false,
+      };
+
+      // Set loading state
+      setPagination({
+        hash,
+        pagination: {
+          ...pagination,
+          isLoading: true,
+        },
+      });
+
+      try {
+        const response = await fetchSubtree(hash, PREFETCH_DEPTH, limit, sort);
+
+        // Store all new nodes at once
+        setMultipleNodes(response.data);
+
+        // Group child hashes by parent, the response keeps their order
+        const childrenByParent = new Map<string, string[]>();
+        for (const child of response.data) {
+          if (child.parentHash) {
+            const childrenHashes = childrenByParent.get(child.parentHash) || [];
+            childrenHashes.push(child.hash);
+            childrenByParent.set(child.parentHash, childrenHashes);
+          }
+        }
+
+        // Every node with a pagination entry got its first page of children
+        for (const [parentHash, page] of Object.entries(response.pagination)) {
+          // Don't replace descendants that already have their pages loaded
+          if (
+            parentHash !== hash &&
+            paginationMap.get(parentHash)?.isInitialized
+          ) {
+            continue;
+          }
+
+          setChildren({
+            parentHash,
+            childrenHashes: childrenByParent.get(parentHash) || [],
+          });
+          setPagination({
+            hash: parentHash,
+            pagination: {
+              cursor: page.nextCursor,
+              hasMore: page.hasMore,
+              isLoading: false,
+              isInitialized: true,
+            },
+          });
+        }
+      } catch (error) {
+        console.error(`Failed to fetch subtree of node ${hash}:`, error);
+        // Reset loading state on error
+        setPagination({
+          hash,
+          pagination: {
+            ...pagination,
+            isLoading: false,
+          },
+        });
+        throw error;
+      }
+    },
+    [paginationMap, sort, setMultipleNodes, setChildren, setPagination]
   );
 
   /**
@@ -135,29 +228,29 @@ export function useTreeViewIntegration(loadMoreSearchResults?: () => void) {
       // Update expanded state
       setExpanded({ hash, expanded: isExpanded });
 
-      // If expanding and node has children (size > 0), load them
+      // If expanding and node has children (size > 0), load them with a couple of levels below
       if (isExpanded && node.size > 0) {
         const pagination = paginationMap.get(hash);
-        // Only load if not already initialized and not currently loading
+        // Only load if not already initialized (or prefetched) and not currently loading
         if (!pagination?.isInitialized && !pagination?.isLoading) {
-          loadNodeChildren(hash).catch((error) => {
+          loadSubtree(hash).catch((error) => {
             console.error(`Failed to load children for ${hash}:`, error);
           });
         }
       }
     },
-    [nodes, paginationMap, setExpanded, loadNodeChildren]
+    [nodes, paginationMap, setExpanded, loadSubtree]
   );
 
   /**
    * Handles when a tree item is selected
    */
-  const handleSelectChange = useCallback((item: TreeDataItem | undefined) => {
-    // You can add selection logic here if needed
-    if (item) {
-      console.log('Selected item:', item);
-    }
-  }, []);
+  const handleSelectChange = useCallback(
+    (item: TreeDataItem | undefined) => {
+      setSelectedHash(item?.id);
+    },
+    [setSelectedHash]
+  );
 
   /**
    * Handles loading more children when scrolling near bottom (infinite scroll)
@@ -207,5 +300,6 @@ export function useTreeViewIntegration(loadMoreSearchResults?: () => void) {
     handleLoadMore,
     expandedNodes: expandedSet,
     loadNodeChildren,
+    loadSubtree,
   };
 }
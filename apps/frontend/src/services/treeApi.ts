@@ -4,24 +4,249 @@ const API_BASE_URL =
 export interface TreeNodeData {
   hash: string;
   parentHash: string | null;
+  /** Full name, every synonym separated by commas */
   name: string;
+  /** Primary synonym of the name, shown in the tree */
+  label: string;
+  /** The other synonyms */
+  synonyms: string[];
+  /** Synonym a search matched, only on search matches (null if it matched something else, e.g. the gloss) */
+  matchedSynonym?: string | null;
   size: number;
+  /** Number of direct children */
+  childCount: number;
+  /** Number of nodes below this one (same as size) */
+  descendantCount: number;
+  /** Number of leaves below this one (0 for a leaf) */
+  leafCount: number;
+  /** Depth in the tree (0 for the root) */
+  depth: number;
+  /** Position in the source document (0 for the root) */
+  ordinal: number;
+  /** WordNet ID of the synset (null if the imported source has no identifiers) */
+  wnid: string | null;
+  /** Gloss (definition) text of the synset */
+  gloss: string | null;
+  /** Any other attributes of the source element */
+  attributes: Record<string, string>;
+}
+
+/**
+ * Order of the children of a node, `-` prefix means descending
+ * `document` keeps the order of the source file
+ */
+export type ChildrenSort = 'document' | 'name' | '-name' | 'size' | '-size';
+
+export interface PaginationData {
+  limit: number;
+  hasMore: boolean;
+  nextCursor?: string;
+  nextChildrenUrl?: string;
 }
 
 export interface PaginatedResponse {
   data: TreeNodeData[];
-  pagination: {
-    limit: number;
-    hasMore: boolean;
-    nextCursor?: string;
-    nextChildrenUrl?: string;
-  };
+  pagination: PaginationData;
+}
+
+/**
+ * How the search matches, `fuzzy` also matches similarly spelled words,
+ * `query` is a structured query (e.g. `name:oak AND size>10`),
+ * `pattern` is a path pattern (e.g. `animal > * > dog`)
+ */
+export type SearchMode = 'exact' | 'fuzzy' | 'query' | 'pattern';
+
+/**
+ * Filters narrowing down the matches of a search
+ */
+export interface SearchFilters {
+  /** Hash of the node whose descendants are searched */
+  under?: string;
+  minDepth?: number;
+  maxDepth?: number;
+  minSize?: number;
+  maxSize?: number;
+  /** Only nodes without children */
+  leafOnly?: boolean;
+}
+
+export interface SearchFacet {
+  /** Hash of the ancestor at the facet depth */
+  hash: string;
+  name: string;
+  /** Number of matches in its branch */
+  count: number;
+}
+
+export interface SearchResponse extends PaginatedResponse {
+  /** Corrected queries that have matches, only when an exact search found nothing */
+  suggestions?: string[];
+  /** Number of all matches, when requested */
+  total?: number;
+  /** Matches grouped by their ancestor at the facet depth, when requested */
+  facets?: SearchFacet[];
+}
+
+export interface NameSuggestion {
+  /** Shallowest node with the synonym */
+  hash: string;
+  name: string;
+  /** Synonym of the name starting with the typed text */
+  synonym: string;
+  /** Full path of that node */
+  path: string;
+  /** Number of nodes with the synonym */
+  hitCount: number;
+}
+
+export interface NameSuggestionsResponse {
+  data: NameSuggestion[];
+}
+
+export interface SubtreeResponse {
+  /** Loaded descendants, parents before their children */
+  data: TreeNodeData[];
+  /** Pagination of every node whose children were loaded, keyed by its hash */
+  pagination: Record<string, PaginationData>;
 }
 
 export interface RootResponse {
   data: TreeNodeData;
 }
 
+export interface EntryStats {
+  /** Number of leaves in the subtree */
+  leafCount: number;
+  /** Levels below the node (0 for a leaf) */
+  maxDepth: number;
+  /** Number of nodes in the subtree by their number of children, leaves excluded */
+  branchingHistogram: { childCount: number; nodes: number }[];
+  /** Children with the largest subtrees */
+  largestChildren: TreeNodeData[];
+}
+
+export interface EntryDetail extends TreeNodeData {
+  /** Full path in the tree */
+  path: string;
+  /** Position among the siblings in the requested sort (0-based) */
+  siblingIndex: number;
+  /** Number of siblings including the node itself */
+  siblingCount: number;
+  stats: EntryStats;
+}
+
+export interface EntryDetailResponse {
+  data: EntryDetail;
+}
+
+export interface SynsetOccurrence extends TreeNodeData {
+  /** Full path in the tree */
+  path: string;
+  /** Ancestor hashes ordered from the root down to the parent */
+  ancestors: string[];
+}
+
+export interface SynsetOccurrencesResponse {
+  data: SynsetOccurrence[];
+}
+
+export interface AncestorEntry extends TreeNodeData {
+  /** Position among the siblings in the requested sort (0-based) */
+  siblingIndex: number;
+  /** Number of siblings including the node itself */
+  siblingCount: number;
+}
+
+export interface AncestorsResponse {
+  /** Chain from the root down to the node itself */
+  data: AncestorEntry[];
+}
+
+export interface NodeComparison {
+  /** Lowest common ancestor of the two nodes (one of them, if it is an ancestor of the other) */
+  ancestor: TreeNodeData;
+  /** Chain from the root down to the first node */
+  chainA: TreeNodeData[];
+  /** Chain from the root down to the second node */
+  chainB: TreeNodeData[];
+  /** Number of edges between the two nodes */
+  distance: number;
+}
+
+export interface NodeComparisonResponse {
+  data: NodeComparison;
+}
+
+export interface PathEntry extends TreeNodeData {
+  /** Full path in the tree */
+  path: string;
+}
+
+export interface EntryResponse {
+  data: PathEntry;
+}
+
+export interface DeletedEntryResponse {
+  data: {
+    hash: string;
+    /** Number of deleted nodes, the node and its descendants */
+    deletedCount: number;
+  };
+}
+
+export interface PathResolution {
+  /** Nodes at the path (the same path can exist more than once), empty if not found */
+  data: PathEntry[];
+  /** Longest prefix of the path that exists, if the path wasn't found */
+  longestPrefix: { path: string; data: PathEntry[] } | null;
+}
+
+/**
+ * Error of a search the server rejected, e.g. a structured query with a syntax error
+ */
+export class SearchQueryError extends Error {
+  constructor(
+    message: string,
+    /** Character offset of the error in the query, if known */
+    readonly position?: number
+  ) {
+    super(message);
+    this.name = 'SearchQueryError';
+  }
+}
+
+/**
+ * Error of a write the server rejected, e.g. a taken name or an invalid name
+ */
+export class EntryEditError extends Error {
+  constructor(
+    message: string,
+    /** HTTP status of the response */
+    readonly status: number
+  ) {
+    super(message);
+    this.name = 'EntryEditError';
+  }
+}
+
+/**
+ * Reads the response of a write, a rejected write throws its error message
+ * (the problems of the invalid fields, if the body was invalid)
+ */
+async function readEditResponse<T>(response: Response): Promise<T> {
+  if (!response.ok) {
+    const body = await response.json().catch(() => ({}));
+    const details: { message: string }[] | undefined = body.details;
+    throw new EntryEditError(
+      details?.map((issue) => issue.message).join(', ') ??
+        body.error ??
+        response.statusText,
+      response.status
+    );
+  }
+  return response.json();
+}
+
 /**
  * Fetches the root entry of the tree
  */
@@ -39,12 +264,26 @@ export async function fetchRoot(): Promise<RootResponse> {
 export async function searchEntries(
   query: string,
   cursor?: string,
-  limit = 100
-): Promise<PaginatedResponse> {
+  limit = 100,
+  mode: SearchMode = 'exact',
+  filters: SearchFilters = {},
+  facetDepth?: number
+): Promise<SearchResponse> {
   const params = new URLSearchParams({
     q: query,
     limit: limit.toString(),
+    mode,
   });
+  for (const [name, value] of Object.entries(filters)) {
+    if (value !== undefined && value !== false) {
+      params.append(name, String(value));
+    }
+  }
+  // Counts are over all matches, the first page is enough
+  if (facetDepth !== undefined) {
+    params.append('count', 'true');
+    params.append('facetDepth', facetDepth.toString());
+  }
   if (cursor) {
     params.append('cursor', cursor);
   }
@@ -52,22 +291,49 @@ export async function searchEntries(
   const response = await fetch(
     `${API_BASE_URL}/entries/search?${params.toString()}`
   );
+  if (response.status === 400) {
+    const body = await response.json();
+    throw new SearchQueryError(body.error, body.position);
+  }
   if (!response.ok) {
     throw new Error(`Failed to search entries: ${response.statusText}`);
   }
   return response.json();
 }
 
+/**
+ * Fetches the names starting with a prefix, for autocomplete
+ */
+export async function fetchNameSuggestions(
+  prefix: string,
+  limit = 8
+): Promise<NameSuggestionsResponse> {
+  const params = new URLSearchParams({
+    q: prefix,
+    limit: limit.toString(),
+  });
+
+  const response = await fetch(
+    `${API_BASE_URL}/entries/suggest?${params.toString()}`
+  );
+  if (!response.ok) {
+    throw new Error(`Failed to fetch suggestions: ${response.statusText}`);
+  }
+  return response.json();
+}
+
 /**
  * Fetches children of a node with pagination
  */
 export async function fetchNodeChildren(
   hash: string,
   cursor?: string,
-  limit = 100
+  limit = 100,
+  sort: ChildrenSort = 'name'
 ): Promise<PaginatedResponse> {
   const params = new URLSearchParams({
     limit: limit.toString(),
+    sort,
   });
   if (cursor) {
     params.append('cursor', cursor);
@@ -81,3 +347,164 @@ export async function fetchNodeChildren(
   }
   return response.json();
 }
+
+/**
+ * Fetches a depth-limited subtree of a node
+ * Every level is paginated per node, so a deep branch is opened in a single request
+ */
+export async function fetchSubtree(
+  hash: string,
+  depth = 2,
+  limitPerNode = 100,
+  sort: ChildrenSort = 'name'
+): Promise<SubtreeResponse> {
+  const params = new URLSearchParams({
+    depth: depth.toString(),
+    limitPerNode: limitPerNode.toString(),
+    sort,
+  });
+
+  const response = await fetch(
+    `${API_BASE_URL}/entries/${hash}/subtree?${params.toString()}`
+  );
+  if (!response.ok) {
+    throw new Error(`Failed to fetch subtree of node ${hash}`);
+  }
+  return response.json();
+}
+
+/**
+ * Fetches the ancestor chain of a node, from the root down to the node itself
+ * Sibling positions are computed in the given children order
+ */
+export async function fetchAncestors(
+  hash: string,
+  sort: ChildrenSort = 'name'
+): Promise<AncestorsResponse> {
+  const params = new URLSearchParams({ sort });
+
+  const response = await fetch(
+    `${API_BASE_URL}/entries/${hash}/ancestors?${params.toString()}`
+  );
+  if (!response.ok) {
+    throw new Error(`Failed to fetch ancestors of node ${hash}`);
+  }
+  return response.json();
+}
+
+/**
+ * Fetches a single node with its sibling position and subtree statistics
+ */
+export async function fetchEntryDetail(
+  hash: string,
+  sort: ChildrenSort = 'name'
+): Promise<EntryDetailResponse> {
+  const params = new URLSearchParams({ sort });
+
+  const response = await fetch(
+    `${API_BASE_URL}/entries/${hash}?${params.toString()}`
+  );
+  if (!response.ok) {
+    throw new Error(`Failed to fetch node ${hash}`);
+  }
+  return response.json();
+}
+
+/**
+ * Resolves a human-readable path ("a > b > c") to its nodes
+ * A path that doesn't exist resolves to no nodes and the longest prefix that does
+ */
+export async function resolvePath(path: string): Promise<PathResolution> {
+  const params = new URLSearchParams({ path });
+
+  const response = await fetch(
+    `${API_BASE_URL}/entries/by-path?${params.toString()}`
+  );
+  if (response.status === 404) {
+    const { longestPrefix } = await response.json();
+    return { data: [], longestPrefix };
+  }
+  if (!response.ok) {
+    throw new Error(`Failed to resolve path: ${response.statusText}`);
+  }
+
+  const { data } = await response.json();
+  return { data, longestPrefix: null };
+}
+
+/**
+ * Fetches every occurrence of a synset (the same wnid can appear under several paths)
+ */
+export async function fetchSynsetOccurrences(
+  wnid: string
+): Promise<SynsetOccurrencesResponse> {
+  const response = await fetch(
+    `${API_BASE_URL}/synsets/${encodeURIComponent(wnid)}`
+  );
+  if (!response.ok) {
+    throw new Error(`Failed to fetch occurrences of synset ${wnid}`);
+  }
+  return response.json();
+}
+
+/**
+ * Fetches the lowest common ancestor of two nodes with both their ancestor chains
+ */
+export async function fetchLowestCommonAncestor(
+  a: string,
+  b: string
+): Promise<NodeComparisonResponse> {
+  const params = new URLSearchParams({ a, b });
+  const response = await fetch(`${API_BASE_URL}/entries/lca?${params}`);
+  if (!response.ok) {
+    throw new Error(`Failed to compare nodes ${a} and ${b}`);
+  }
+  return response.json();
+}
+
+/**
+ * Adds a leaf under a node
+ */
+export async function createChildEntry(
+  parentHash: string,
+  name: string
+): Promise<EntryResponse> {
+  const response = await fetch(
+    `${API_BASE_URL}/entries/${parentHash}/children`,
+    {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ name }),
+    }
+  );
+  return readEditResponse(response);
+}
+
+/**
+ * Renames a node, the response has its new hash (the hashes of its descendants change too)
+ */
+export async function renameEntry(
+  hash: string,
+  name: string
+): Promise<EntryResponse> {
+  const response = await fetch(`${API_BASE_URL}/entries/${hash}`, {
+    method: 'PATCH',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ name }),
+  });
+  return readEditResponse(response);
+}
+
+/**
+ * Deletes a node, `recursive` deletes a node with children together with its subtree
+ */
+export async function deleteEntry(
+  hash: string,
+  recursive = false
+): Promise<DeletedEntryResponse> {
+  const params = new URLSearchParams({ recursive: String(recursive) });
+  const response = await fetch(`${API_BASE_URL}/entries/${hash}?${params}`, {
+    method: 'DELETE',
+  });
+  return readEditResponse(response);
+}
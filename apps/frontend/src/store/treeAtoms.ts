@@ -1,5 +1,10 @@
 import { atom } from 'jotai';
-import type { TreeNodeData } from '../services/treeApi';
+import type {
+  ChildrenSort,
+  NodeComparison,
+  SearchMode,
+  TreeNodeData,
+} from '../services/treeApi';
 
 /**
  * Pagination state for a node's children
@@ -50,6 +55,28 @@ export const expandedNodesAtom = atom<Set<string>>(new Set<string>());
  */
 export const rootNodeHashAtom = atom<string | null>(null);
 
+/**
+ * Atom storing the selected node hash
+ * undefined if nothing is selected
+ */
+export const selectedNodeHashAtom = atom<string | undefined>(undefined);
+
+/**
+ * Count shown next to a node name in the tree
+ */
+export type DisplayCount = 'descendantCount' | 'childCount' | 'leafCount';
+
+/**
+ * Atom storing which count is shown next to the node names
+ */
+export const displayCountAtom = atom<DisplayCount>('descendantCount');
+
+/**
+ * Atom storing the order children are loaded in
+ * Loaded pages follow the order they were fetched with, so changing it requires reloading them
+ */
+export const childrenSortAtom = atom<ChildrenSort>('name');
+
 /**
  * Derived atom: Get a specific node by hash
  */
@@ -108,6 +135,18 @@ export const setNodeAtom = atom(null, (get, set, node: TreeNodeData) => {
   set(nodesAtom, newNodes);
 });
 
+/**
+ * Helper atom to set multiple nodes at once (for batch updates)
+ */
+export const setMultipleNodesAtom = atom(
+  null,
+  (get, set, nodesToSet: TreeNodeData[]) => {
+    const newNodes = new Map(get(nodesAtom));
+    nodesToSet.forEach((node) => newNodes.set(node.hash, node));
+    set(nodesAtom, newNodes);
+  }
+);
+
 /**
  * Helper atom to set children for a node
  */
@@ -221,6 +260,72 @@ export const searchQueryAtom = atom<string>('');
  */
 export const searchResultsAtom = atom<TreeNodeData[]>([]);
 
+/**
+ * Atom storing the search mode, `fuzzy` tolerates typos
+ */
+export const searchModeAtom = atom<SearchMode>('exact');
+
+/**
+ * Node whose branch the search is limited to
+ */
+export interface SearchScope {
+  hash: string;
+  name: string;
+}
+
+/**
+ * Atom storing the search scope, null searches the whole tree
+ */
+export const searchScopeAtom = atom<SearchScope | null>(null);
+
+/**
+ * Atom storing why the server rejected the search query (e.g. a query syntax error)
+ */
+export const searchErrorAtom = atom<string | null>(null);
+
+/**
+ * Atom storing the "did you mean" suggestions of a search without matches
+ */
+export const searchSuggestionsAtom = atom<string[]>([]);
+
+/**
+ * Atom storing the depth of the ancestors the search matches are counted by
+ */
+export const searchFacetDepthAtom = atom<number>(1);
+
+/**
+ * Match counts of the last search
+ */
+export interface SearchCounts {
+  /** Number of all matches */
+  total: number;
+  /** Number of matches by the hash of their ancestor at the facet depth */
+  facets: Record<string, number>;
+}
+
+/**
+ * Atom storing the match counts of the last search, null if there are none
+ */
+export const searchCountsAtom = atom<SearchCounts | null>(null);
+
+/**
+ * Node waiting to be compared with the next selected node
+ */
+export interface CompareSource {
+  hash: string;
+  label: string;
+}
+
+/**
+ * Atom storing the node a comparison was started from, null if none is pending
+ */
+export const compareSourceAtom = atom<CompareSource | null>(null);
+
+/**
+ * Atom storing the last comparison of two nodes, its paths are highlighted in the tree
+ */
+export const comparisonAtom = atom<NodeComparison | null>(null);
+
 /**
  * Pagination state for search results
  */
@@ -241,6 +346,22 @@ export const searchPaginationAtom = atom<SearchPaginationState>({
   isLoading: false,
 });
 
+/**
+ * Result of resolving a path query ("a > b > c")
+ */
+export interface PathResolutionState {
+  /** Whether a node exists at the path */
+  found: boolean;
+  /** Longest prefix of the path that exists, if the path wasn't found */
+  longestPrefix: string | null;
+}
+
+/**
+ * Atom storing the result of the last path query
+ * null when the search query is not a path
+ */
+export const pathResolutionAtom = atom<PathResolutionState | null>(null);
+
 /**
  * Derived atom: Check if we're in search mode (query length > 3)
  */
@@ -248,3 +369,18 @@ export const isSearchModeAtom = atom((get) => {
   const query = get(searchQueryAtom);
   return query.trim().length > 3;
 });
+
+/**
+ * Derived atom: Get the selected node
+ * Looks into the lazy tree first, then into the search results
+ */
+export const selectedNodeAtom = atom((get) => {
+  const hash = get(selectedNodeHashAtom);
+  if (!hash) {
+    return undefined;
+  }
+  return (
+    get(nodesAtom).get(hash) ??
+    get(searchResultsAtom).find((node) => node.hash === hash)
+  );
+});
@@ -1,50 +1,86 @@
 /**
- * Splits text by search term (case-insensitive) and returns segments with match indicators
+ * Splits a search query into words and double-quoted phrases, the same way the server does
+ */
+export function tokenizeSearchQuery(searchTerm: string): string[] {
+  const terms: string[] = [];
+  // A quoted phrase (the closing quote is optional while typing) or a run of non-space characters
+  const pattern = /"([^"]*)"?|(\S+)/g;
+
+  for (const [, phrase, word] of searchTerm.matchAll(pattern)) {
+    const term = (phrase ?? word).trim();
+    if (term !== '') {
+      terms.push(term);
+    }
+  }
+
+  return terms;
+}
+
+/**
+ * Escapes a string to be used literally in a regular expression
+ */
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/**
+ * Splits text by the search terms (case-insensitive) and returns segments with match indicators
+ * Every term is highlighted where a word starts with it, the same as the prefix matching of the search
  */
 export function splitTextBySearchTerm(
   text: string,
   searchTerm: string
 ): Array<{ text: string; isMatch: boolean }> {
-  if (!searchTerm || searchTerm.trim().length === 0) {
+  const terms = tokenizeSearchQuery(searchTerm);
+  if (terms.length === 0) {
     return [{ text, isMatch: false }];
   }
 
-  const normalizedText = text.toLowerCase();
-  const normalizedSearchTerm = searchTerm.toLowerCase();
+  // Collect the matched ranges of all terms
+  const ranges: Array<[number, number]> = [];
+  for (const term of terms) {
+    const pattern = new RegExp(
+      `(?<![\\p{L}\\p{N}])${escapeRegExp(term)}`,
+      'giu'
+    );
+    for (const match of text.matchAll(pattern)) {
+      ranges.push([match.index, match.index + match[0].length]);
+    }
+  }
+
+  if (ranges.length === 0) {
+    return [{ text, isMatch: false }];
+  }
+
+  // Merge overlapping ranges (e.g. "cat" and "catamount")
+  ranges.sort((a, b) => a[0] - b[0]);
+  const merged: Array<[number, number]> = [];
+  for (const [start, end] of ranges) {
+    const last = merged[merged.length - 1];
+    if (last && start <= last[1]) {
+      last[1] = Math.max(last[1], end);
+    } else {
+      merged.push([start, end]);
+    }
+  }
+
   const segments: Array<{ text: string; isMatch: boolean }> = [];
   let lastIndex = 0;
-  let currentIndex = normalizedText.indexOf(normalizedSearchTerm, lastIndex);
 
-  while (currentIndex !== -1) {
+  for (const [start, end] of merged) {
     // Add text before the match
-    if (currentIndex > lastIndex) {
-      segments.push({
-        text: text.substring(lastIndex, currentIndex),
-        isMatch: false,
-      });
+    if (start > lastIndex) {
+      segments.push({ text: text.substring(lastIndex, start), isMatch: false });
     }
 
     // Add the match
-    segments.push({
-      text: text.substring(currentIndex, currentIndex + searchTerm.length),
-      isMatch: true,
-    });
-
-    lastIndex = currentIndex + searchTerm.length;
-    currentIndex = normalizedText.indexOf(normalizedSearchTerm, lastIndex);
+    segments.push({ text: text.substring(start, end), isMatch: true });
+    lastIndex = end;
   }
 
   // Add remaining text after the last match
   if (lastIndex < text.length) {
-    segments.push({
-      text: text.substring(lastIndex),
-      isMatch: false,
-    });
-  }
-
-  // If no matches found, return the whole text
-  if (segments.length === 0) {
-    return [{ text, isMatch: false }];
+    segments.push({ text: text.substring(lastIndex), isMatch: false });
   }
 
   return segments;
@@ -54,25 +90,31 @@ interface HighlightedTextProps {
   text: string;
   searchTerm: string;
   className?: string;
+  title?: string;
 }
 
 /**
- * Component that highlights search terms in text
+ * Component that highlights every search term in text
  * Uses background color to highlight matching text
  */
 export function HighlightedText({
   text,
   searchTerm,
   className = '',
+  title,
 }: HighlightedTextProps) {
   if (!searchTerm || searchTerm.trim().length === 0) {
-    return <span className={className}>{text}</span>;
+    return (
+      <span className={className} title={title}>
+        {text}
+      </span>
+    );
   }
 
   const segments = splitTextBySearchTerm(text, searchTerm);
 
   return (
-    <span className={`block truncate ${className}`}>
+    <span className={`block truncate ${className}`} title={title}>
       {segments.map((segment, index) => {
         if (segment.isMatch) {
           return (
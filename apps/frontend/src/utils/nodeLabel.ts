@@ -0,0 +1,42 @@
+import type { TreeNodeData } from '../services/treeApi';
+import type { DisplayCount } from '../store/treeAtoms';
+
+/**
+ * Builds the label of a node shown in the tree
+ * @param node - The node data
+ * @param displayCount - Which count to show in parentheses
+ * @returns The primary label with the chosen count, e.g. "oak (12)"
+ */
+export function formatNodeLabel(
+  node: TreeNodeData,
+  displayCount: DisplayCount
+): string {
+  // Databases imported before the counts existed only have size
+  const count = node[displayCount] ?? node.size;
+  return `${node.label ?? node.name} (${count})`;
+}
+
+/**
+ * Builds the tooltip of a node shown in the tree, its other synonyms
+ * @param node - The node data
+ * @returns The synonyms, e.g. "oak tree", or undefined if the node has none
+ */
+export function formatNodeTitle(node: TreeNodeData): string | undefined {
+  return node.synonyms?.length > 0 ? node.synonyms.join(', ') : undefined;
+}
+
+/**
+ * Splits a node name into its synonyms, the way the server does
+ * @param name - The full name, synonyms separated by commas
+ * @returns The primary label and the other synonyms, e.g. "oak" and ["oak tree"]
+ */
+export function splitNodeName(name: string): {
+  label: string;
+  synonyms: string[];
+} {
+  const [label = name, ...synonyms] = name
+    .split(',')
+    .map((synonym) => synonym.trim())
+    .filter((synonym) => synonym !== '');
+  return { label, synonyms };
+}
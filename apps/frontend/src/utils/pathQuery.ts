@@ -0,0 +1,22 @@
+// Separator of the names in a path, same as in the `path` column built by the parser
+export const PATH_SEPARATOR = ' > ';
+
+/**
+ * Checks if a search query is a path (e.g. "ImageNet 2011 Fall Release > plant")
+ */
+export function isPathQuery(query: string): boolean {
+  return query.includes(PATH_SEPARATOR);
+}
+
+/**
+ * Gets the last non-empty segment of a path query
+ * @param query - The path query
+ * @returns The last segment, or an empty string
+ */
+export function getLastPathSegment(query: string): string {
+  const segments = query
+    .split(PATH_SEPARATOR.trim())
+    .map((segment) => segment.trim())
+    .filter((segment) => segment !== '');
+  return segments[segments.length - 1] ?? '';
+}
@@ -1,5 +1,7 @@
 import type { TreeDataItem } from '@homework/ui/tree-view';
 import type { TreeNodeData } from '../services/treeApi';
+import type { DisplayCount } from '../store/treeAtoms';
+import { formatNodeLabel, formatNodeTitle } from './nodeLabel';
 
 /**
  * Builds a tree from a flat array of TreeNodeData elements.
@@ -7,9 +9,13 @@ import type { TreeNodeData } from '../services/treeApi';
  * Time Complexity: O(n)
  * Space Complexity: O(n)
  * @param entries - The array of parsed entries
+ * @param displayCount - Which count to show next to the node names
  * @returns Array containing the root node of the tree in TreeDataItem format (or empty array)
  */
-export function buildTree(entries: TreeNodeData[]): TreeDataItem[] {
+export function buildTree(
+  entries: TreeNodeData[],
+  displayCount: DisplayCount = 'descendantCount'
+): TreeDataItem[] {
   if (entries.length === 0) {
     return [];
   }
@@ -22,7 +28,8 @@ export function buildTree(entries: TreeNodeData[]): TreeDataItem[] {
   for (const entry of entries) {
     const node: TreeDataItem = {
       id: entry.hash,
-      name: `${entry.name} (${entry.size})`,
+      name: formatNodeLabel(entry, displayCount),
+      title: formatNodeTitle(entry),
       children: [],
       _hasChildren: false,
     };
@@ -6,7 +6,10 @@ import {
   nodeChildrenAtom,
   expandedNodesAtom,
   nodePaginationAtom,
+  displayCountAtom,
 } from '../store/treeAtoms';
+import { formatNodeLabel, formatNodeTitle } from './nodeLabel';
+import { isPendingEntry } from '../hooks/useEntryEditing';
 
 /**
  * Extended TreeDataItem with pagination metadata
@@ -31,6 +34,7 @@ export function useTreeDataConverter(
   const childrenMap = useAtomValue(nodeChildrenAtom);
   const expandedSet = useAtomValue(expandedNodesAtom);
   const paginationMap = useAtomValue(nodePaginationAtom);
+  const displayCount = useAtomValue(displayCountAtom);
 
   return useMemo(() => {
     if (!rootHash) {
@@ -74,7 +78,10 @@ export function useTreeDataConverter(
 
       const treeItem: ExtendedTreeDataItem = {
         id: node.hash,
-        name: `${node.name} (${node.size})`, // Just the segment name, size in parentheses
+        name: formatNodeLabel(node, displayCount), // Just the primary label, chosen count in parentheses
+        title: formatNodeTitle(node), // Other synonyms on hover
+        editName: node.name, // Inline rename edits every synonym
+        readOnly: isPendingEntry(node.hash), // Not editable until the server confirms it
         // Include children array if:
         // 1. Node has children loaded (children.length > 0), OR
         // 2. Node has size > 0 (indicating it has children, even if not loaded yet)
@@ -96,5 +103,5 @@ export function useTreeDataConverter(
 
     const rootItem = convertNode(rootHash);
     return rootItem ? [rootItem] : [];
-  }, [rootHash, nodes, childrenMap, expandedSet, paginationMap]);
+  }, [rootHash, nodes, childrenMap, expandedSet, paginationMap, displayCount]);
 }
@@ -1,18 +1,35 @@
 import path from 'path';
 import Database from 'better-sqlite3';
+import { rebuildFuzzyIndex } from './fuzzy';
 
 const ASSETS_PATH = path.join(__dirname, 'assets');
-const dbFilePath = path.join(ASSETS_PATH, 'database.db');
+export const DEFAULT_DATABASE_PATH = path.join(ASSETS_PATH, 'database.db');
+
+/**
+ * Resolves the database file path
+ * `DATABASE_PATH` environment variable wins over the default in assets
+ * @returns The database file path
+ */
+export function resolveDatabasePath(): string {
+  return process.env.DATABASE_PATH
+    ? path.resolve(process.env.DATABASE_PATH)
+    : DEFAULT_DATABASE_PATH;
+}
 
 /**
  * Creates a new database connection
+ * @param filePath - The database file path
  * @returns A new database connection
  */
-export function createDatabase(): Database.Database {
-  const db = new Database(dbFilePath);
+export function createDatabase(
+  filePath = resolveDatabasePath()
+): Database.Database {
+  const db = new Database(filePath);
 
   // Enable foreign keys
   db.pragma('foreign_keys = ON');
+  // Rows replaced by INSERT OR REPLACE fire the delete triggers too, so the search index stays in sync
+  db.pragma('recursive_triggers = ON');
 
   return db;
 }
@@ -29,24 +46,246 @@ export function initializeSchema(db: Database.Database): void {
       name TEXT,
       path TEXT,
       size INTEGER,
+      childCount INTEGER,
+      descendantCount INTEGER,
+      leafCount INTEGER,
+      depth INTEGER,
+      ordinal INTEGER,
+      wnid TEXT,
+      gloss TEXT,
+      attributes TEXT,
       FOREIGN KEY (parentHash) REFERENCES nodes(hash)
     )
   `);
 
+  // Databases created before these columns existed need to be migrated
+  addMissingColumns(db, 'nodes', {
+    childCount: 'INTEGER',
+    descendantCount: 'INTEGER',
+    leafCount: 'INTEGER',
+    depth: 'INTEGER',
+    ordinal: 'INTEGER',
+    wnid: 'TEXT',
+    gloss: 'TEXT',
+    attributes: 'TEXT',
+  });
+
   db.exec(`
     CREATE INDEX IF NOT EXISTS idx_parent ON nodes(parentHash);
     CREATE INDEX IF NOT EXISTS idx_name ON nodes(name);
     CREATE INDEX IF NOT EXISTS idx_parent_name_lower ON nodes(parentHash, LOWER(name), hash);
+    CREATE INDEX IF NOT EXISTS idx_parent_size ON nodes(parentHash, size, hash);
+    CREATE INDEX IF NOT EXISTS idx_parent_ordinal ON nodes(parentHash, ordinal, hash);
     CREATE INDEX IF NOT EXISTS idx_name_lower ON nodes(LOWER(name));
+    CREATE INDEX IF NOT EXISTS idx_wnid ON nodes(wnid);
+    CREATE INDEX IF NOT EXISTS idx_path_lower ON nodes(LOWER(path));
   `);
+
+  // Old hashes of renamed and moved nodes, so links to them keep resolving
+  db.exec(`
+    CREATE TABLE IF NOT EXISTS entry_aliases (
+      hash TEXT PRIMARY KEY,
+      targetHash TEXT NOT NULL,
+      FOREIGN KEY (targetHash) REFERENCES nodes(hash) ON UPDATE CASCADE ON DELETE CASCADE
+    ) WITHOUT ROWID;
+
+    CREATE INDEX IF NOT EXISTS idx_alias_target ON entry_aliases(targetHash);
+  `);
+
+  initializeSynonyms(db);
+  initializeSearchIndex(db);
+}
+
+/**
+ * SQL expression of the synonyms of a name as a JSON array, split on the commas
+ * ("dog, domestic dog" -> ["dog"," domestic dog"]), for `json_each`
+ * Backslashes and quotes are escaped, tabs and line breaks replaced by spaces.
+ * @param column - The name column
+ */
+function synonymArraySql(column: string): string {
+  let escaped = `replace(replace(COALESCE(${column}, ''), '\\', '\\\\'), '"', '\\"')`;
+  for (const control of [9, 10, 13]) {
+    escaped = `replace(${escaped}, char(${control}), ' ')`;
+  }
+  return `'["' || replace(${escaped}, ',', '","') || '"]'`;
+}
+
+/**
+ * Creates the synonyms table, every comma-separated synonym of a node name as a row
+ * The synonym at position 0 is the primary label shown in the tree.
+ * The table is kept in sync with `nodes` by triggers, an existing database gets it filled from `nodes`.
+ * @param db - The database connection
+ */
+function initializeSynonyms(db: Database.Database): void {
+  const exists = db
+    .prepare(
+      "SELECT 1 FROM sqlite_master WHERE type = 'table' AND name = 'synonyms'"
+    )
+    .get();
+
+  // Positions follow the name, empty synonyms are skipped
+  const selectSynonyms = (hash: string, name: string) => `
+    SELECT ${hash}, key, trim(value)
+    FROM json_each(${synonymArraySql(name)})
+    WHERE trim(value) != ''
+  `;
+
+  db.exec(`
+    CREATE TABLE IF NOT EXISTS synonyms (
+      nodeHash TEXT,
+      position INTEGER,
+      label TEXT,
+      PRIMARY KEY (nodeHash, position)
+    ) WITHOUT ROWID;
+
+    CREATE INDEX IF NOT EXISTS idx_synonyms_label_lower ON synonyms(LOWER(label));
+
+    CREATE TRIGGER IF NOT EXISTS synonyms_insert AFTER INSERT ON nodes BEGIN
+      INSERT INTO synonyms (nodeHash, position, label)
+      ${selectSynonyms('new.hash', 'new.name')};
+    END;
+
+    CREATE TRIGGER IF NOT EXISTS synonyms_delete AFTER DELETE ON nodes BEGIN
+      DELETE FROM synonyms WHERE nodeHash = old.hash;
+    END;
+
+    CREATE TRIGGER IF NOT EXISTS synonyms_update AFTER UPDATE OF hash, name ON nodes BEGIN
+      DELETE FROM synonyms WHERE nodeHash = old.hash;
+      INSERT INTO synonyms (nodeHash, position, label)
+      ${selectSynonyms('new.hash', 'new.name')};
+    END;
+  `);
+
+  if (!exists) {
+    db.exec(`
+      INSERT INTO synonyms (nodeHash, position, label)
+      SELECT n.hash, s.key, trim(s.value)
+      FROM nodes n, json_each(${synonymArraySql('n.name')}) s
+      WHERE trim(s.value) != ''
+    `);
+  }
+}
+
+/**
+ * SQL expression of the primary label of a name, its first synonym ("dog, domestic dog" -> "dog")
+ * @param column - The name column
+ */
+function primaryLabelSql(column: string): string {
+  return `CASE WHEN instr(${column}, ',') > 0 THEN substr(${column}, 1, instr(${column}, ',') - 1) ELSE ${column} END`;
+}
+
+/**
+ * SQL expression of the synonyms of a name, the words after the primary label
+ * @param column - The name column
+ */
+function synonymsSql(column: string): string {
+  return `CASE WHEN instr(${column}, ',') > 0 THEN trim(substr(${column}, instr(${column}, ',') + 1)) ELSE '' END`;
+}
+
+/**
+ * Creates the FTS5 search index over names, synonyms and glosses, and the fuzzy index tables
+ * The index is kept in sync with `nodes` by triggers, its rowid is the rowid of the node.
+ * An existing database without the index gets it filled from `nodes`, so does an empty fuzzy index.
+ * @param db - The database connection
+ */
+function initializeSearchIndex(db: Database.Database): void {
+  const exists = db
+    .prepare(
+      "SELECT 1 FROM sqlite_master WHERE type = 'table' AND name = 'nodes_fts'"
+    )
+    .get();
+
+  const newLabel = primaryLabelSql('new.name');
+  const newSynonyms = synonymsSql('new.name');
+
+  db.exec(`
+    CREATE VIRTUAL TABLE IF NOT EXISTS nodes_fts USING fts5(
+      name,
+      synonyms,
+      gloss,
+      tokenize = 'unicode61 remove_diacritics 2'
+    );
+
+    CREATE TRIGGER IF NOT EXISTS nodes_fts_insert AFTER INSERT ON nodes BEGIN
+      INSERT INTO nodes_fts (rowid, name, synonyms, gloss)
+      VALUES (new.rowid, ${newLabel}, ${newSynonyms}, new.gloss);
+    END;
+
+    CREATE TRIGGER IF NOT EXISTS nodes_fts_delete AFTER DELETE ON nodes BEGIN
+      DELETE FROM nodes_fts WHERE rowid = old.rowid;
+    END;
+
+    CREATE TRIGGER IF NOT EXISTS nodes_fts_update AFTER UPDATE OF name, gloss ON nodes BEGIN
+      UPDATE nodes_fts
+      SET name = ${newLabel}, synonyms = ${newSynonyms}, gloss = new.gloss
+      WHERE rowid = new.rowid;
+    END;
+  `);
+
+  // Vocabulary of the index and the trigrams of its terms, for typo-tolerant search.
+  // Rebuilt after every import (see rebuildFuzzyIndex in fuzzy.ts), edits update the terms of their names
+  db.exec(`
+    CREATE VIRTUAL TABLE IF NOT EXISTS nodes_fts_vocab USING fts5vocab(nodes_fts, col);
+
+    CREATE TABLE IF NOT EXISTS search_terms (
+      term TEXT PRIMARY KEY,
+      documents INTEGER
+    ) WITHOUT ROWID;
+
+    CREATE TABLE IF NOT EXISTS search_trigrams (
+      trigram TEXT,
+      term TEXT,
+      PRIMARY KEY (trigram, term)
+    ) WITHOUT ROWID;
+  `);
+
+  if (!exists) {
+    db.exec(`
+      INSERT INTO nodes_fts (rowid, name, synonyms, gloss)
+      SELECT rowid, ${primaryLabelSql('name')}, ${synonymsSql('name')}, gloss
+      FROM nodes
+    `);
+  }
+
+  // A database from before the fuzzy index (or one never imported since) gets it built once
+  const hasTerms = db.prepare('SELECT 1 FROM search_terms LIMIT 1').get();
+  const hasNodes = db.prepare('SELECT 1 FROM nodes LIMIT 1').get();
+  if (!hasTerms && hasNodes) {
+    rebuildFuzzyIndex(db);
+  }
+}
+
+/**
+ * Adds columns that are missing on an existing table
+ * @param db - The database connection
+ * @param table - The table name
+ * @param columns - Map of column name to its SQL type
+ */
+function addMissingColumns(
+  db: Database.Database,
+  table: string,
+  columns: Record<string, string>
+): void {
+  const existing = new Set(
+    (db.prepare(`PRAGMA table_info(${table})`).all() as { name: string }[]).map(
+      (column) => column.name
+    )
+  );
+
+  for (const [name, type] of Object.entries(columns)) {
+    if (!existing.has(name)) {
+      db.exec(`ALTER TABLE ${table} ADD COLUMN ${name} ${type}`);
+    }
+  }
 }
 
 /**
  * Initializes the database
+ * @param filePath - The database file path
  * @returns The database connection
  */
-export function initializeDatabase(): Database.Database {
-  const db = createDatabase();
+export function initializeDatabase(filePath?: string): Database.Database {
+  const db = createDatabase(filePath);
   initializeSchema(db);
   return db;
 }
@@ -0,0 +1,293 @@
+import type Database from 'better-sqlite3';
+
+// Temporary table the new release is streamed into before diffing
+export const STAGING_TABLE = 'import_nodes';
+
+// Number of example rows per category printed in the summary
+const SUMMARY_EXAMPLES = 10;
+
+export interface ChangedNode {
+  hash: string;
+  path: string;
+}
+
+export interface RenamedNode {
+  wnid: string;
+  fromHash: string;
+  toHash: string;
+  fromPath: string;
+  toPath: string;
+}
+
+export interface ResizedNode extends ChangedNode {
+  fromSize: number;
+  toSize: number;
+}
+
+export interface Changeset {
+  added: ChangedNode[];
+  removed: ChangedNode[];
+  renamed: RenamedNode[];
+  resized: ResizedNode[];
+  // nodes whose own name is the same, but the path (and hash) changed by an ancestor rename
+  repathed: number;
+}
+
+/**
+ * Creates the temporary staging table with the same columns as `nodes`
+ * @param db - The database connection
+ */
+export function createStagingTable(db: Database.Database): void {
+  db.exec(`
+    DROP TABLE IF EXISTS temp.${STAGING_TABLE};
+    CREATE TEMP TABLE ${STAGING_TABLE} AS SELECT * FROM nodes WHERE 0;
+    CREATE UNIQUE INDEX temp.idx_${STAGING_TABLE}_hash ON ${STAGING_TABLE}(hash);
+  `);
+}
+
+/**
+ * Creates a temporary table with the wnid path (wnids from the root, joined by "/") of every node
+ * The wnid path identifies a position in the tree independently of names,
+ * nodes without a wnid (and their subtrees) get no key and can't be matched as renames
+ * @param db - The database connection
+ * @param table - The source table
+ * @param keysTable - The name of the created table
+ */
+function createWnidPathTable(
+  db: Database.Database,
+  table: string,
+  keysTable: string
+): void {
+  db.exec(`
+    DROP TABLE IF EXISTS temp.${keysTable};
+    CREATE TEMP TABLE ${keysTable} AS
+    WITH keys AS (
+      SELECT hash, wnid as wnidPath FROM ${table} WHERE parentHash IS NULL
+
+      UNION ALL
+
+      SELECT n.hash, k.wnidPath || '/' || n.wnid
+      FROM ${table} n
+      INNER JOIN keys k ON n.parentHash = k.hash
+    )
+    SELECT hash, wnidPath FROM keys WHERE wnidPath IS NOT NULL;
+    CREATE INDEX temp.idx_${keysTable}_path ON ${keysTable}(wnidPath);
+  `);
+}
+
+/**
+ * Compares the staged release with the current `nodes`
+ *
+ * Nodes are matched by hash first (hash = md5(wnid::path), so unchanged paths keep their hash),
+ * the remaining ones by their wnid path, if it's unique on both sides.
+ * A wnid path match with a different hash is a rename of the node or of one of its ancestors.
+ * @param db - The database connection
+ * @returns The changeset
+ */
+export function computeChangeset(db: Database.Database): Changeset {
+  createWnidPathTable(db, 'nodes', 'old_keys');
+  createWnidPathTable(db, STAGING_TABLE, 'new_keys');
+
+  db.exec(`
+    DROP TABLE IF EXISTS temp.rekeyed;
+    CREATE TEMP TABLE rekeyed AS
+    SELECT ok.hash as oldHash, nk.hash as newHash
+    FROM old_keys ok
+    INNER JOIN new_keys nk ON nk.wnidPath = ok.wnidPath
+    WHERE ok.hash NOT IN (SELECT hash FROM ${STAGING_TABLE})
+      AND nk.hash NOT IN (SELECT hash FROM nodes)
+      AND ok.wnidPath IN (SELECT wnidPath FROM old_keys GROUP BY wnidPath HAVING COUNT(*) = 1)
+      AND nk.wnidPath IN (SELECT wnidPath FROM new_keys GROUP BY wnidPath HAVING COUNT(*) = 1);
+    CREATE INDEX temp.idx_rekeyed_old ON rekeyed(oldHash);
+    CREATE INDEX temp.idx_rekeyed_new ON rekeyed(newHash);
+  `);
+
+  const added = db
+    .prepare(
+      `
+        SELECT hash, path FROM ${STAGING_TABLE}
+        WHERE hash NOT IN (SELECT hash FROM nodes)
+          AND hash NOT IN (SELECT newHash FROM rekeyed)
+        ORDER BY path
+      `
+    )
+    .all() as ChangedNode[];
+
+  const removed = db
+    .prepare(
+      `
+        SELECT hash, path FROM nodes
+        WHERE hash NOT IN (SELECT hash FROM ${STAGING_TABLE})
+          AND hash NOT IN (SELECT oldHash FROM rekeyed)
+        ORDER BY path
+      `
+    )
+    .all() as ChangedNode[];
+
+  const renamed = db
+    .prepare(
+      `
+        SELECT o.wnid, o.hash as fromHash, i.hash as toHash, o.path as fromPath, i.path as toPath
+        FROM rekeyed r
+        INNER JOIN nodes o ON o.hash = r.oldHash
+        INNER JOIN ${STAGING_TABLE} i ON i.hash = r.newHash
+        WHERE o.name IS NOT i.name
+        ORDER BY i.path
+      `
+    )
+    .all() as RenamedNode[];
+
+  const { repathed } = db
+    .prepare(
+      `
+        SELECT COUNT(*) as repathed
+        FROM rekeyed r
+        INNER JOIN nodes o ON o.hash = r.oldHash
+        INNER JOIN ${STAGING_TABLE} i ON i.hash = r.newHash
+        WHERE o.name IS i.name
+      `
+    )
+    .get() as { repathed: number };
+
+  // Size changes of nodes that kept their hash or were matched by their wnid path
+  const resized = db
+    .prepare(
+      `
+        SELECT i.hash, i.path, o.size as fromSize, i.size as toSize
+        FROM ${STAGING_TABLE} i
+        INNER JOIN nodes o ON o.hash = COALESCE(
+          (SELECT oldHash FROM rekeyed WHERE newHash = i.hash),
+          i.hash
+        )
+        WHERE o.size IS NOT i.size
+        ORDER BY i.path
+      `
+    )
+    .all() as ResizedNode[];
+
+  return { added, removed, renamed, resized, repathed };
+}
+
+/**
+ * Applies the staged release to `nodes` in a single transaction
+ * Only rows that changed are written, the end state equals the staged release
+ * @param db - The database connection
+ */
+export function applyChangeset(db: Database.Database): void {
+  const columns = (
+    db.prepare('PRAGMA table_info(nodes)').all() as { name: string }[]
+  )
+    .map((column) => column.name)
+    .filter((name) => name !== 'hash');
+
+  const apply = db.transaction(() => {
+    // Removed nodes and old versions of renamed ones
+    db.prepare(
+      `DELETE FROM nodes WHERE hash NOT IN (SELECT hash FROM ${STAGING_TABLE})`
+    ).run();
+
+    // Added nodes and new versions of renamed ones
+    db.prepare(
+      `
+        INSERT INTO nodes (hash, ${columns.join(', ')})
+        SELECT hash, ${columns.join(', ')} FROM ${STAGING_TABLE}
+        WHERE hash NOT IN (SELECT hash FROM nodes)
+      `
+    ).run();
+
+    // Nodes that kept their hash but changed (size, gloss, ...)
+    db.prepare(
+      `
+        UPDATE nodes
+        SET ${columns.map((c) => `${c} = i.${c}`).join(', ')}
+        FROM ${STAGING_TABLE} i
+        WHERE i.hash = nodes.hash
+          AND (${columns.map((c) => `nodes.${c} IS NOT i.${c}`).join(' OR ')})
+      `
+    ).run();
+
+    // Foreign keys are off during the import, aliases of removed nodes don't cascade
+    db.prepare(
+      'DELETE FROM entry_aliases WHERE targetHash NOT IN (SELECT hash FROM nodes)'
+    ).run();
+  });
+
+  apply();
+}
+
+/**
+ * Replaces all `nodes` with the staged release in a single transaction,
+ * readers see the old tree until it commits
+ * @param db - The database connection
+ */
+export function replaceNodes(db: Database.Database): void {
+  const columns = (
+    db.prepare('PRAGMA table_info(nodes)').all() as { name: string }[]
+  ).map((column) => column.name);
+
+  const replace = db.transaction(() => {
+    db.prepare('DELETE FROM nodes').run();
+    db.prepare(
+      `
+        INSERT INTO nodes (${columns.join(', ')})
+        SELECT ${columns.join(', ')} FROM ${STAGING_TABLE}
+      `
+    ).run();
+
+    // Foreign keys are off during the import, aliases of removed nodes don't cascade
+    db.prepare(
+      'DELETE FROM entry_aliases WHERE targetHash NOT IN (SELECT hash FROM nodes)'
+    ).run();
+  });
+
+  replace();
+}
+
+/**
+ * Formats a changeset as a human-readable summary
+ * @param changeset - The changeset
+ * @returns The summary
+ */
+export function formatChangeset(changeset: Changeset): string {
+  const { added, removed, renamed, resized, repathed } = changeset;
+
+  const section = <T>(
+    title: string,
+    items: T[],
+    format: (item: T) => string
+  ): string[] => {
+    if (items.length === 0) {
+      return [];
+    }
+    const lines = [`${title} (${items.length}):`];
+    for (const item of items.slice(0, SUMMARY_EXAMPLES)) {
+      lines.push(`  ${format(item)}`);
+    }
+    if (items.length > SUMMARY_EXAMPLES) {
+      lines.push(`  ... and ${items.length - SUMMARY_EXAMPLES} more`);
+    }
+    return lines;
+  };
+
+  const lines = [
+    `Changes: ${added.length} added, ${removed.length} removed, ${renamed.length} renamed, ${resized.length} resized`,
+    ...section('Added', added, (node) => `+ ${node.path}`),
+    ...section('Removed', removed, (node) => `- ${node.path}`),
+    ...section(
+      'Renamed',
+      renamed,
+      (node) => `~ ${node.fromPath}\n    -> ${node.toPath}`
+    ),
+    ...section(
+      'Resized',
+      resized,
+      (node) => `# ${node.path}: ${node.fromSize} -> ${node.toSize}`
+    ),
+  ];
+
+  if (repathed > 0) {
+    lines.push(`${repathed} descendants of renamed nodes got a new path`);
+  }
+
+  return lines.join('\n');
+}
@@ -0,0 +1,545 @@
+import type Database from 'better-sqlite3';
+import { updateFuzzyTerms } from './fuzzy';
+import { generateHash, PATH_SEPARATOR } from './importers';
+import { getWhitespaceIssues } from './names';
+
+/**
+ * Problem with one field of a request body
+ */
+export interface ValidationIssue {
+  field: string;
+  message: string;
+}
+
+/**
+ * Error of a rejected write, with the HTTP status it maps to
+ */
+export class EntryEditError extends Error {
+  constructor(
+    message: string,
+    readonly status: 400 | 404 | 409,
+    // problems of the request body, for validation errors
+    readonly details?: ValidationIssue[]
+  ) {
+    super(message);
+    this.name = 'EntryEditError';
+  }
+}
+
+export interface NewEntryInput {
+  name: string;
+  wnid: string | null;
+  gloss: string | null;
+  attributes: Record<string, string>;
+}
+
+interface EditedNode {
+  hash: string;
+  parentHash: string | null;
+  name: string;
+  path: string;
+  depth: number;
+  wnid: string | null;
+  childCount: number;
+  leafCount: number;
+  descendantCount: number;
+}
+
+/**
+ * Validates a node name, names become path segments
+ * @param name - The name from the request body
+ * @returns The problems of the name (empty if it's fine)
+ */
+function validateName(name: unknown): ValidationIssue[] {
+  if (typeof name !== 'string') {
+    return [{ field: 'name', message: 'Name is required' }];
+  }
+
+  const reasons = getWhitespaceIssues(name);
+  // `>` separates the levels of paths and path patterns
+  if (name.includes(PATH_SEPARATOR.trim())) {
+    reasons.push(`contains '${PATH_SEPARATOR.trim()}'`);
+  }
+  return reasons.map((reason) => ({
+    field: 'name',
+    message: `Invalid name: ${reason}`,
+  }));
+}
+
+/**
+ * Throws a validation error if there are problems
+ */
+function assertValid(issues: ValidationIssue[]): void {
+  if (issues.length > 0) {
+    throw new EntryEditError('Invalid request body', 400, issues);
+  }
+}
+
+/**
+ * Parses the body of a new child entry
+ * @param body - The request body
+ * @returns The new entry fields
+ * @throws EntryEditError listing every invalid field
+ */
+export function parseNewEntryInput(body: unknown): NewEntryInput {
+  if (typeof body !== 'object' || body === null || Array.isArray(body)) {
+    throw new EntryEditError('Request body must be a JSON object', 400);
+  }
+  const { name, wnid, gloss, attributes } = body as Record<string, unknown>;
+
+  const issues = validateName(name);
+  if (wnid !== undefined && wnid !== null && typeof wnid !== 'string') {
+    issues.push({ field: 'wnid', message: 'wnid must be a string or null' });
+  }
+  if (gloss !== undefined && gloss !== null && typeof gloss !== 'string') {
+    issues.push({ field: 'gloss', message: 'gloss must be a string or null' });
+  }
+  if (
+    attributes !== undefined &&
+    (typeof attributes !== 'object' ||
+      attributes === null ||
+      Array.isArray(attributes) ||
+      Object.values(attributes).some((value) => typeof value !== 'string'))
+  ) {
+    issues.push({
+      field: 'attributes',
+      message: 'attributes must be an object of strings',
+    });
+  }
+  assertValid(issues);
+
+  return {
+    name: name as string,
+    wnid: (wnid as string | undefined) || null,
+    gloss: (gloss as string | undefined) ?? null,
+    attributes: (attributes as Record<string, string> | undefined) ?? {},
+  };
+}
+
+/**
+ * Parses the body of a rename
+ * @param body - The request body
+ * @returns The new name
+ * @throws EntryEditError if the name is missing or invalid
+ */
+export function parseRenameInput(body: unknown): string {
+  const { name } = (
+    typeof body === 'object' && body !== null ? body : {}
+  ) as Record<string, unknown>;
+  assertValid(validateName(name));
+  return name as string;
+}
+
+/**
+ * Parses the body of a move
+ * @param body - The request body
+ * @returns The hash of the new parent
+ * @throws EntryEditError if the parent hash is missing
+ */
+export function parseMoveInput(body: unknown): string {
+  const { parentHash } = (
+    typeof body === 'object' && body !== null ? body : {}
+  ) as Record<string, unknown>;
+  if (typeof parentHash !== 'string' || parentHash === '') {
+    assertValid([{ field: 'parentHash', message: 'parentHash is required' }]);
+  }
+  return parentHash as string;
+}
+
+/**
+ * Loads a node or fails with 404
+ * @param message - The error message if the node doesn't exist
+ */
+function getNode(
+  db: Database.Database,
+  hash: string,
+  message = 'Entry not found'
+): EditedNode {
+  const node = db
+    .prepare(
+      'SELECT hash, parentHash, name, path, depth, wnid, childCount, leafCount, descendantCount FROM nodes WHERE hash = ?'
+    )
+    .get(hash) as EditedNode | undefined;
+  if (!node) {
+    throw new EntryEditError(message, 404);
+  }
+  return node;
+}
+
+// The node bound to the first parameter and all of its descendants
+const SUBTREE_CTE = `
+  WITH RECURSIVE subtree(hash) AS (
+    SELECT ?
+
+    UNION ALL
+
+    SELECT n.hash
+    FROM nodes n
+    INNER JOIN subtree s ON n.parentHash = s.hash
+  )
+`;
+
+/**
+ * Adds to the counts of a node and all of its ancestors
+ * @param db - The database connection
+ * @param hash - The lowest node to update
+ * @param nodes - Change of the size and descendant count
+ * @param leaves - Change of the leaf count
+ */
+function adjustAncestorCounts(
+  db: Database.Database,
+  hash: string,
+  nodes: number,
+  leaves: number
+): void {
+  db.prepare(
+    `
+      WITH RECURSIVE ancestors(hash, parentHash) AS (
+        SELECT hash, parentHash FROM nodes WHERE hash = ?
+
+        UNION ALL
+
+        SELECT n.hash, n.parentHash
+        FROM nodes n
+        INNER JOIN ancestors a ON n.hash = a.parentHash
+      )
+      UPDATE nodes
+      SET size = size + ?, descendantCount = descendantCount + ?, leafCount = leafCount + ?
+      WHERE hash IN (SELECT hash FROM ancestors)
+    `
+  ).run(hash, nodes, nodes, leaves);
+}
+
+/**
+ * Counts a subtree in under a new parent and its ancestors
+ * A parent that was a leaf stops being one, the subtree takes its place in the leaf counts above.
+ * @param db - The database connection
+ * @param parentHash - The new parent
+ * @param nodes - Number of nodes in the subtree
+ * @param leaves - Number of leaves in the subtree
+ */
+function attachToParent(
+  db: Database.Database,
+  parentHash: string,
+  nodes: number,
+  leaves: number
+): void {
+  const wasLeaf = getNode(db, parentHash).childCount === 0;
+  adjustAncestorCounts(db, parentHash, nodes, leaves - (wasLeaf ? 1 : 0));
+  db.prepare(
+    'UPDATE nodes SET childCount = childCount + 1, leafCount = leafCount + ? WHERE hash = ?'
+  ).run(wasLeaf ? 1 : 0, parentHash);
+}
+
+/**
+ * Counts a subtree out of its parent and its ancestors
+ * A parent left without children becomes a leaf itself (a leaf doesn't count itself).
+ * @param db - The database connection
+ * @param parentHash - The old parent
+ * @param nodes - Number of nodes in the subtree
+ * @param leaves - Number of leaves in the subtree
+ */
+function detachFromParent(
+  db: Database.Database,
+  parentHash: string,
+  nodes: number,
+  leaves: number
+): void {
+  const becomesLeaf = getNode(db, parentHash).childCount === 1;
+  adjustAncestorCounts(db, parentHash, -nodes, -leaves + (becomesLeaf ? 1 : 0));
+  db.prepare(
+    'UPDATE nodes SET childCount = childCount - 1, leafCount = leafCount - ? WHERE hash = ?'
+  ).run(becomesLeaf ? 1 : 0, parentHash);
+}
+
+/**
+ * Gets the number of leaves in the subtree of a node (the node itself, if it is a leaf)
+ */
+function subtreeLeaves(node: EditedNode): number {
+  return node.childCount === 0 ? 1 : node.leafCount;
+}
+
+/**
+ * Gives a subtree a new path, after a rename or a move
+ * The path, hash and depth of the node and all of its descendants change, so do the parent hashes
+ * pointing at them. The old hashes become aliases of the new ones, so they keep resolving.
+ * @param db - The database connection
+ * @param node - The root of the subtree
+ * @param parent - The parent of the node at the new path (null for the root)
+ * @param name - The name of the node at the new path
+ * @returns The new hash of the node
+ * @throws EntryEditError if a new hash is taken by another node
+ */
+function rewriteSubtree(
+  db: Database.Database,
+  node: EditedNode,
+  parent: EditedNode | null,
+  name: string
+): string {
+  const path = parent ? `${parent.path}${PATH_SEPARATOR}${name}` : name;
+  const depth = parent ? parent.depth + 1 : 0;
+  const subtree = db
+    .prepare(
+      `
+        ${SUBTREE_CTE}
+        SELECT n.hash, n.parentHash, n.path, n.wnid
+        FROM subtree s
+        INNER JOIN nodes n ON n.hash = s.hash
+      `
+    )
+    .all(node.hash) as Pick<
+    EditedNode,
+    'hash' | 'parentHash' | 'path' | 'wnid'
+  >[];
+
+  // Descendant paths keep everything below the node
+  const newHashes = new Map<string, string>();
+  const newPaths = new Map<string, string>();
+  for (const row of subtree) {
+    const newPath = path + row.path.slice(node.path.length);
+    newPaths.set(row.hash, newPath);
+    newHashes.set(row.hash, generateHash(row.wnid, newPath));
+  }
+
+  const taken = db
+    .prepare(
+      `
+        SELECT 1 FROM nodes
+        WHERE hash IN (SELECT value FROM json_each(?))
+          AND hash NOT IN (SELECT value FROM json_each(?))
+        LIMIT 1
+      `
+    )
+    .get(
+      JSON.stringify([...newHashes.values()]),
+      JSON.stringify([...newHashes.keys()])
+    );
+  if (taken) {
+    throw new EntryEditError(
+      'An entry with this name and wnid already exists under the parent',
+      409
+    );
+  }
+
+  // Children point at the old hash of their parent until it's updated
+  db.pragma('defer_foreign_keys = ON');
+  const update = db.prepare(
+    `
+      UPDATE nodes
+      SET hash = ?, parentHash = ?, path = ?, depth = depth + ?, name = COALESCE(?, name)
+      WHERE hash = ?
+    `
+  );
+  for (const row of subtree) {
+    const isNode = row.hash === node.hash;
+    update.run(
+      newHashes.get(row.hash),
+      isNode ? parent?.hash ?? null : newHashes.get(row.parentHash as string),
+      newPaths.get(row.hash),
+      depth - node.depth,
+      // descendants keep their names
+      isNode ? name : null,
+      row.hash
+    );
+  }
+
+  // Older aliases followed the update (ON UPDATE CASCADE), the old hashes become aliases too
+  const addAlias = db.prepare(
+    'INSERT OR REPLACE INTO entry_aliases (hash, targetHash) VALUES (?, ?)'
+  );
+  for (const [oldHash, newHash] of newHashes) {
+    addAlias.run(oldHash, newHash);
+  }
+  // A node that got an old hash back (e.g. moved back) isn't an alias anymore
+  db.prepare(
+    'DELETE FROM entry_aliases WHERE hash IN (SELECT value FROM json_each(?))'
+  ).run(JSON.stringify([...newHashes.values()]));
+
+  return newHashes.get(node.hash) as string;
+}
+
+/**
+ * Adds a leaf under a node
+ * The counts of every ancestor grow by one node, the leaf counts only if the parent wasn't a leaf.
+ * @param db - The database connection
+ * @param parentHash - The parent node
+ * @param input - The fields of the new node
+ * @returns The hash of the new node
+ * @throws EntryEditError if the parent doesn't exist or the path is taken
+ */
+export function createChildEntry(
+  db: Database.Database,
+  parentHash: string,
+  input: NewEntryInput
+): string {
+  const create = db.transaction(() => {
+    const parent = getNode(db, parentHash);
+    const path = `${parent.path}${PATH_SEPARATOR}${input.name}`;
+    const hash = generateHash(input.wnid, path);
+
+    if (db.prepare('SELECT 1 FROM nodes WHERE hash = ?').get(hash)) {
+      throw new EntryEditError(
+        'An entry with this name and wnid already exists under the parent',
+        409
+      );
+    }
+
+    // Added last in the document order
+    db.prepare(
+      `
+        INSERT INTO nodes (
+          hash, parentHash, name, path, size, childCount, descendantCount, leafCount,
+          depth, ordinal, wnid, gloss, attributes
+        )
+        VALUES (?, ?, ?, ?, 0, 0, 0, 0, ?, (SELECT COALESCE(MAX(ordinal), 0) + 1 FROM nodes), ?, ?, ?)
+      `
+    ).run(
+      hash,
+      parentHash,
+      input.name,
+      path,
+      parent.depth + 1,
+      input.wnid,
+      input.gloss,
+      JSON.stringify(input.attributes)
+    );
+    // A hash that was an alias belongs to the new node now
+    db.prepare('DELETE FROM entry_aliases WHERE hash = ?').run(hash);
+
+    attachToParent(db, parentHash, 1, 1);
+    updateFuzzyTerms(db, [input.name]);
+
+    return hash;
+  });
+
+  return create();
+}
+
+/**
+ * Renames a node
+ * The path of the node and of all of its descendants changes, so do their hashes. Counts stay the same.
+ * @param db - The database connection
+ * @param hash - The node to rename
+ * @param name - The new name
+ * @returns The new hash of the node
+ * @throws EntryEditError if the node doesn't exist or the new path is taken
+ */
+export function renameEntry(
+  db: Database.Database,
+  hash: string,
+  name: string
+): string {
+  const rename = db.transaction(() => {
+    const node = getNode(db, hash);
+    if (name === node.name) {
+      return hash;
+    }
+
+    const parent = node.parentHash ? getNode(db, node.parentHash) : null;
+    const newHash = rewriteSubtree(db, node, parent, name);
+    // Words of the old name may be gone, the new ones may be new
+    updateFuzzyTerms(db, [node.name, name]);
+
+    return newHash;
+  });
+
+  return rename();
+}
+
+/**
+ * Moves a node with its subtree under another parent
+ * The counts of the old ancestors shrink and the counts of the new ones grow by the moved nodes
+ * and leaves, the paths and hashes of the subtree change.
+ * @param db - The database connection
+ * @param hash - The node to move
+ * @param parentHash - The new parent
+ * @returns The new hash of the node
+ * @throws EntryEditError if a node doesn't exist, the node is the root,
+ * the new parent is in the subtree of the node or the new path is taken
+ */
+export function moveEntry(
+  db: Database.Database,
+  hash: string,
+  parentHash: string
+): string {
+  const move = db.transaction(() => {
+    const node = getNode(db, hash);
+    const parent = getNode(db, parentHash, 'Target parent not found');
+    if (!node.parentHash) {
+      throw new EntryEditError("The root entry can't be moved", 409);
+    }
+    if (node.parentHash === parent.hash) {
+      return hash;
+    }
+
+    // A node can't become its own ancestor
+    const isCycle = db
+      .prepare(`${SUBTREE_CTE} SELECT 1 FROM subtree WHERE hash = ?`)
+      .get(hash, parent.hash);
+    if (isCycle) {
+      throw new EntryEditError(
+        "An entry can't be moved under itself or its descendants",
+        409
+      );
+    }
+
+    // Names stay the same, so does the fuzzy index
+    const nodes = node.descendantCount + 1;
+    const leaves = subtreeLeaves(node);
+    detachFromParent(db, node.parentHash, nodes, leaves);
+    attachToParent(db, parent.hash, nodes, leaves);
+
+    return rewriteSubtree(db, node, parent, node.name);
+  });
+
+  return move();
+}
+
+/**
+ * Deletes a node, with its subtree if `recursive`
+ * The counts of every ancestor shrink by the removed nodes and leaves,
+ * a parent left without children becomes a leaf itself. Aliases of the removed nodes go with them.
+ * @param db - The database connection
+ * @param hash - The node to delete
+ * @param recursive - Whether a node with children can be deleted
+ * @returns The number of deleted nodes
+ * @throws EntryEditError if the node doesn't exist, is the root, or has children and isn't deleted recursively
+ */
+export function deleteEntry(
+  db: Database.Database,
+  hash: string,
+  recursive: boolean
+): number {
+  const remove = db.transaction(() => {
+    const node = getNode(db, hash);
+    if (!node.parentHash) {
+      throw new EntryEditError("The root entry can't be deleted", 409);
+    }
+    if (node.childCount > 0 && !recursive) {
+      throw new EntryEditError(
+        'Entry has children, delete it with recursive=true',
+        409
+      );
+    }
+
+    const names = db
+      .prepare(
+        `${SUBTREE_CTE} SELECT n.name FROM subtree s INNER JOIN nodes n ON n.hash = s.hash`
+      )
+      .pluck()
+      .all(hash) as string[];
+
+    // One statement, so the foreign keys hold once the whole subtree is gone
+    db.prepare(
+      `${SUBTREE_CTE} DELETE FROM nodes WHERE hash IN (SELECT hash FROM subtree)`
+    ).run(hash);
+
+    const nodes = node.descendantCount + 1;
+    detachFromParent(db, node.parentHash, nodes, subtreeLeaves(node));
+    updateFuzzyTerms(db, names);
+
+    return nodes;
+  });
+
+  return remove();
+}
@@ -0,0 +1,343 @@
+import type Database from 'better-sqlite3';
+import {
+  buildFtsQuery,
+  normalizeTerm,
+  splitWords,
+  tokenizeSearchQuery,
+  type SearchTerm,
+} from './search';
+
+// Candidate terms compared by edit distance per query word, the ones sharing the most trigrams
+const MAX_CANDIDATES = 200;
+
+// Number of similar terms a query word is expanded to in the fuzzy mode
+const MAX_EXPANSIONS = 5;
+
+// Number of "did you mean" suggestions
+const MAX_SUGGESTIONS = 3;
+
+export interface SimilarTerm {
+  term: string;
+  distance: number;
+  // number of nodes having the term in the name or synonyms
+  documents: number;
+}
+
+/**
+ * Splits a term into trigrams, padded so the start and end of the word count more
+ * @param term - The normalized term, e.g. `cat`
+ * @returns The distinct trigrams, e.g. `  c`, ` ca`, `cat`, `at `
+ */
+function termTrigrams(term: string): string[] {
+  const padded = `  ${term} `;
+  const trigrams = new Set<string>();
+  for (let i = 0; i + 3 <= padded.length; i++) {
+    trigrams.add(padded.slice(i, i + 3));
+  }
+  return [...trigrams];
+}
+
+/**
+ * Gets the number of typos tolerated in a word, longer words tolerate more
+ * @param length - The word length
+ * @returns The maximum edit distance
+ */
+function maxEditDistance(length: number): number {
+  if (length < 3) return 0;
+  if (length <= 4) return 1;
+  if (length <= 8) return 2;
+  return 3;
+}
+
+/**
+ * Computes the edit distance of two strings, where an insertion, deletion, substitution
+ * or transposition of two adjacent characters is one edit
+ * Gives up as soon as the distance is over the bound.
+ * @param a - The first string
+ * @param b - The second string
+ * @param max - The largest distance of interest
+ * @returns The distance, or `max + 1` if it is larger than `max`
+ */
+function editDistance(a: string, b: string, max: number): number {
+  if (Math.abs(a.length - b.length) > max) {
+    return max + 1;
+  }
+
+  // Only the last two rows are needed for transpositions
+  let previous2: number[] = [];
+  let previous = Array.from({ length: b.length + 1 }, (_, j) => j);
+
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    let rowMin = i;
+
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      let value = Math.min(
+        previous[j] + 1,
+        current[j - 1] + 1,
+        previous[j - 1] + cost
+      );
+      if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+        value = Math.min(value, previous2[j - 2] + 1);
+      }
+      current.push(value);
+      rowMin = Math.min(rowMin, value);
+    }
+
+    if (rowMin > max) {
+      return max + 1;
+    }
+    previous2 = previous;
+    previous = current;
+  }
+
+  return Math.min(previous[b.length], max + 1);
+}
+
+/**
+ * Rebuilds the fuzzy index, the vocabulary of names and synonyms and the trigrams of every term
+ * Run after an import, the index isn't updated by triggers (edits update their terms, see updateFuzzyTerms).
+ * @param db - The database connection
+ * @returns The number of indexed terms
+ */
+export function rebuildFuzzyIndex(db: Database.Database): number {
+  const insertTrigram = db.prepare(
+    'INSERT INTO search_trigrams (trigram, term) VALUES (?, ?)'
+  );
+
+  const rebuild = db.transaction(() => {
+    db.exec('DELETE FROM search_trigrams; DELETE FROM search_terms;');
+    db.exec(`
+      INSERT INTO search_terms (term, documents)
+      SELECT term, SUM(doc) FROM nodes_fts_vocab
+      WHERE col IN ('name', 'synonyms')
+      GROUP BY term
+    `);
+
+    const terms = db
+      .prepare('SELECT term FROM search_terms')
+      .pluck()
+      .all() as string[];
+    for (const term of terms) {
+      for (const trigram of termTrigrams(term)) {
+        insertTrigram.run(trigram, term);
+      }
+    }
+    return terms.length;
+  });
+
+  return rebuild();
+}
+
+/**
+ * Updates the fuzzy index for the words of edited names
+ * The document counts are read back from the search index, so run it in the transaction of the edit,
+ * after the nodes are written. Terms no name or synonym has anymore are removed.
+ * @param db - The database connection
+ * @param names - The names before and after the edit, with all of their synonyms
+ */
+export function updateFuzzyTerms(db: Database.Database, names: string[]): void {
+  const countDocuments = db
+    .prepare(
+      `
+        SELECT COALESCE(SUM(doc), 0) FROM nodes_fts_vocab
+        WHERE term = ? AND col IN ('name', 'synonyms')
+      `
+    )
+    .pluck();
+  const insertTerm = db.prepare(
+    'INSERT INTO search_terms (term, documents) VALUES (?, ?) ON CONFLICT (term) DO UPDATE SET documents = excluded.documents'
+  );
+  const deleteTerm = db.prepare('DELETE FROM search_terms WHERE term = ?');
+  const insertTrigram = db.prepare(
+    'INSERT OR IGNORE INTO search_trigrams (trigram, term) VALUES (?, ?)'
+  );
+  const deleteTrigrams = db.prepare(
+    'DELETE FROM search_trigrams WHERE term = ?'
+  );
+
+  const terms = new Set(names.flatMap((name) => splitWords(name)));
+  for (const term of terms) {
+    const documents = countDocuments.get(term) as number;
+    if (documents === 0) {
+      deleteTrigrams.run(term);
+      deleteTerm.run(term);
+      continue;
+    }
+
+    insertTerm.run(term, documents);
+    for (const trigram of termTrigrams(term)) {
+      insertTrigram.run(trigram, term);
+    }
+  }
+}
+
+/**
+ * Finds indexed terms within the typo tolerance of a word
+ * Candidates sharing enough trigrams with the word are looked up in the index,
+ * then checked by edit distance.
+ * @param db - The database connection
+ * @param word - The word as typed
+ * @returns The similar terms, closest and most common first (the word itself included, if indexed)
+ */
+export function findSimilarTerms(
+  db: Database.Database,
+  word: string
+): SimilarTerm[] {
+  const term = normalizeTerm(word);
+  const max = maxEditDistance(term.length);
+  if (max === 0) {
+    return [];
+  }
+
+  // One edit changes at most three trigrams of the word
+  const trigrams = termTrigrams(term);
+  const minShared = Math.max(1, trigrams.length - 3 * max);
+
+  const candidates = db
+    .prepare(
+      `
+      SELECT t.term, t.documents
+      FROM search_trigrams g
+      INNER JOIN search_terms t ON t.term = g.term
+      WHERE g.trigram IN (SELECT value FROM json_each(?))
+        AND length(t.term) BETWEEN ? AND ?
+      GROUP BY t.term
+      HAVING COUNT(*) >= ?
+      ORDER BY COUNT(*) DESC, t.documents DESC
+      LIMIT ?
+      `
+    )
+    .all(
+      JSON.stringify(trigrams),
+      term.length - max,
+      term.length + max,
+      minShared,
+      MAX_CANDIDATES
+    ) as { term: string; documents: number }[];
+
+  return candidates
+    .map((candidate) => ({
+      ...candidate,
+      distance: editDistance(term, candidate.term, max),
+    }))
+    .filter((candidate) => candidate.distance <= max)
+    .sort((a, b) => a.distance - b.distance || b.documents - a.documents);
+}
+
+/**
+ * Quotes a term for an FTS5 MATCH expression
+ */
+function quoteFtsTerm(text: string): string {
+  return `"${text.replace(/"/g, '""')}"`;
+}
+
+/**
+ * Splits a user query into terms and expands every word to its similar terms
+ * @param db - The database connection
+ * @param query - The user query
+ * @returns The terms, words with their similar terms (quoted phrases match as typed)
+ */
+export function expandSearchTerms(
+  db: Database.Database,
+  query: string
+): SearchTerm[] {
+  return tokenizeSearchQuery(query).map((term) =>
+    term.isPhrase
+      ? term
+      : {
+          ...term,
+          similar: findSimilarTerms(db, term.text)
+            .slice(0, MAX_EXPANSIONS)
+            .map(({ term: similarTerm }) => similarTerm),
+        }
+  );
+}
+
+/**
+ * Builds a typo-tolerant FTS5 MATCH expression from expanded query terms
+ * Every word matches as a prefix or as any of its similar terms, quoted phrases as a whole.
+ * @param terms - The terms, see expandSearchTerms
+ * @returns The MATCH expression, or null if there are no terms
+ */
+export function buildFuzzyFtsQuery(terms: SearchTerm[]): string | null {
+  if (terms.length === 0) {
+    return null;
+  }
+
+  return terms
+    .map(({ text, isPhrase, similar = [] }) => {
+      if (isPhrase) {
+        return quoteFtsTerm(text);
+      }
+      return `(${[`${quoteFtsTerm(text)}*`, ...similar.map(quoteFtsTerm)].join(
+        ' OR '
+      )})`;
+    })
+    .join(' AND ');
+}
+
+/**
+ * Formats query terms back into a query string
+ */
+function formatQuery(terms: SearchTerm[]): string {
+  return terms
+    .map(({ text, isPhrase }) => (isPhrase ? `"${text}"` : text))
+    .join(' ');
+}
+
+/**
+ * Builds "did you mean" suggestions for a query without matches
+ * Every misspelled word is replaced by one of its similar terms, only corrected queries
+ * that have matches are suggested.
+ * @param db - The database connection
+ * @param query - The user query
+ * @param hasMatches - Checks whether an FTS5 MATCH expression has matches (within the search filters)
+ * @returns The suggested queries, best first
+ */
+export function suggestQueries(
+  db: Database.Database,
+  query: string,
+  hasMatches: (ftsQuery: string) => boolean
+): string[] {
+  const terms = tokenizeSearchQuery(query);
+
+  // Alternatives of every word, the word itself if it has none
+  const alternatives = terms.map((term) => {
+    if (term.isPhrase) {
+      return [term.text];
+    }
+    const similar = findSimilarTerms(db, term.text)
+      .filter(
+        ({ term: similarTerm }) => similarTerm !== normalizeTerm(term.text)
+      )
+      .map(({ term: similarTerm }) => similarTerm);
+    return similar.length > 0 ? similar.slice(0, MAX_EXPANSIONS) : [term.text];
+  });
+
+  if (alternatives.every((words, i) => words[0] === terms[i].text)) {
+    return [];
+  }
+
+  // The n-th suggestion takes the n-th alternative of every word (or its last one)
+  const suggestions = new Set<string>();
+  const rounds = Math.max(...alternatives.map((words) => words.length));
+  for (let round = 0; round < rounds; round++) {
+    const suggestion = formatQuery(
+      terms.map((term, i) => ({
+        ...term,
+        text: alternatives[i][Math.min(round, alternatives[i].length - 1)],
+      }))
+    );
+    const ftsQuery = buildFtsQuery(suggestion);
+    if (ftsQuery && !suggestions.has(suggestion) && hasMatches(ftsQuery)) {
+      suggestions.add(suggestion);
+      if (suggestions.size === MAX_SUGGESTIONS) {
+        break;
+      }
+    }
+  }
+
+  return [...suggestions];
+}
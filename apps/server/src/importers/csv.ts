@@ -0,0 +1,165 @@
+import { readFile } from 'fs/promises';
+import { createEntryBuilder, PATH_SEPARATOR } from './entryBuilder';
+import type { EntryHandler, Importer, SourceNode } from './types';
+
+interface CsvNode extends SourceNode {
+  segments: string[];
+}
+
+/**
+ * Parses CSV content into rows (RFC 4180, quoted fields may contain commas, quotes and newlines)
+ * @param content - The CSV content
+ * @returns Array of rows, each row is an array of fields
+ */
+export function parseCsv(content: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let inQuotes = false;
+
+  for (let i = 0; i < content.length; i++) {
+    const char = content[i];
+
+    if (inQuotes) {
+      if (char === '"' && content[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+      continue;
+    }
+
+    if (char === '"') {
+      inQuotes = true;
+    } else if (char === ',') {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      // Treat \r\n as a single line break
+      if (char === '\r' && content[i + 1] === '\n') {
+        i++;
+      }
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+
+  // Last line without a trailing line break
+  if (field !== '' || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+
+  // Skip empty lines
+  return rows.filter((r) => r.length > 1 || r[0] !== '');
+}
+
+/**
+ * Compares two paths segment by segment, so parents sort right before their descendants
+ */
+function compareSegments(a: string[], b: string[]): number {
+  const length = Math.min(a.length, b.length);
+  for (let i = 0; i < length; i++) {
+    if (a[i] !== b[i]) {
+      return a[i] < b[i] ? -1 : 1;
+    }
+  }
+  return a.length - b.length;
+}
+
+/**
+ * Importer for CSV path lists, one node per row with a `path` column (`a > b > c`)
+ * Optional `wnid` (or `id`) and `gloss` columns, any other column is stored as an attribute.
+ * Ancestors missing from the list are created, rows may come in any order.
+ * Rows have to be sorted to build the hierarchy, so the whole file is loaded in memory.
+ */
+export const csvImporter: Importer = {
+  format: 'csv',
+  extensions: ['.csv'],
+  parse: async (filePath: string, onEntry: EntryHandler) => {
+    const [header, ...rows] = parseCsv(await readFile(filePath, 'utf8'));
+
+    const columns = (header ?? []).map((column) => column.trim());
+    const pathIndex = columns.indexOf('path');
+    if (pathIndex === -1) {
+      throw new Error(`CSV file ${filePath} has no "path" column`);
+    }
+
+    const nodes: CsvNode[] = rows.map((row) => {
+      const {
+        path = '',
+        wnid,
+        id,
+        gloss,
+        ...attributes
+      } = Object.fromEntries(
+        columns.map((column, index) => [column, row[index] ?? ''])
+      );
+      const segments = path.split(PATH_SEPARATOR).map((s) => s.trim());
+
+      return {
+        segments,
+        wnid: wnid || id || null,
+        words: segments[segments.length - 1],
+        gloss: gloss || null,
+        // Empty cells mean the attribute is not set
+        attributes: Object.fromEntries(
+          Object.entries(attributes).filter(([, value]) => value !== '')
+        ),
+      };
+    });
+
+    nodes.sort((a, b) => compareSegments(a.segments, b.segments));
+
+    const builder = createEntryBuilder(onEntry);
+    // Segments of the currently open nodes
+    const openSegments: string[] = [];
+
+    for (const node of nodes) {
+      const parentSegments = node.segments.slice(0, -1);
+
+      // Close open nodes until the open path is a prefix of this node's parent path
+      let common = 0;
+      while (
+        common < openSegments.length &&
+        common < parentSegments.length &&
+        openSegments[common] === parentSegments[common]
+      ) {
+        common++;
+      }
+      while (openSegments.length > common) {
+        builder.close();
+        openSegments.pop();
+      }
+
+      // Open ancestors that are not listed in the file
+      while (openSegments.length < parentSegments.length) {
+        const words = parentSegments[openSegments.length];
+        builder.open({ wnid: null, words, gloss: null, attributes: {} });
+        openSegments.push(words);
+      }
+
+      builder.open({
+        wnid: node.wnid,
+        words: node.words,
+        gloss: node.gloss,
+        attributes: node.attributes,
+      });
+      openSegments.push(node.words);
+    }
+
+    while (openSegments.length > 0) {
+      builder.close();
+      openSegments.pop();
+    }
+
+    return builder.count;
+  },
+};
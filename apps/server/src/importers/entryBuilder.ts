@@ -0,0 +1,111 @@
+import { createHash } from 'crypto';
+import type {
+  EntryHandler,
+  ParsedEntry,
+  SourceNode,
+  StackFrame,
+} from './types';
+
+// Separator of the names in a path
+export const PATH_SEPARATOR = ' > ';
+
+/**
+ * Generates a hash for a given wnid and path
+ * @param wnid - The wnid of the entry
+ * @param path - The path of the entry
+ * @returns The hash of the entry
+ */
+export function generateHash(wnid: string | null, path: string): string {
+  const compositeKey = `${wnid ?? ''}::${path}`;
+  return createHash('md5').update(compositeKey).digest('hex');
+}
+
+/**
+ * Creates a builder that turns depth-first open/close events into entries
+ * Only the current path stack is kept in memory, an entry is emitted as soon as its node closes
+ * (at that point the whole subtree was visited, so its size is final)
+ * @param onEntry - Callback invoked for every built entry
+ * @returns Builder with `open`, `close` and the current `depth` and `count`
+ */
+export function createEntryBuilder(onEntry: EntryHandler) {
+  const stack: StackFrame[] = [];
+  let count = 0;
+  // Number of opened nodes, gives every node its position in the document
+  let opened = 0;
+
+  const open = (node: SourceNode) => {
+    // Push current node onto stack
+    stack.push({
+      ...node,
+      ordinal: opened++,
+      childCount: 0,
+      descendantCount: 0,
+      leafCount: 0,
+    });
+
+    // Increment parent's child and descendant count
+    if (stack.length > 1) {
+      stack[stack.length - 2].childCount++;
+      stack[stack.length - 2].descendantCount++;
+    }
+  };
+
+  const close = () => {
+    const current = stack.pop() as StackFrame;
+
+    // Build full path from stack
+    const path = [...stack.map((s) => s.words), current.words].join(
+      PATH_SEPARATOR
+    );
+
+    // Calculate current entry's hash
+    const hash = generateHash(current.wnid, path);
+
+    // Calculate parent hash (if parent exists)
+    let parentHash: string | null = null;
+    if (stack.length > 0) {
+      // Build parent path
+      const parentPath = stack.map((s) => s.words).join(PATH_SEPARATOR);
+      // Get parent from stack
+      const parent = stack[stack.length - 1];
+      parentHash = generateHash(parent.wnid, parentPath);
+    }
+
+    const entry: ParsedEntry = {
+      hash,
+      parentHash,
+      path,
+      name: current.words,
+      size: current.descendantCount,
+      childCount: current.childCount,
+      descendantCount: current.descendantCount,
+      leafCount: current.leafCount,
+      depth: stack.length,
+      ordinal: current.ordinal,
+      wnid: current.wnid,
+      gloss: current.gloss,
+      attributes: current.attributes,
+    };
+
+    onEntry(entry);
+    count++;
+
+    // Propagate descendant and leaf counts up to parent
+    if (stack.length > 0) {
+      const parent = stack[stack.length - 1];
+      parent.descendantCount += current.descendantCount;
+      parent.leafCount += current.childCount === 0 ? 1 : current.leafCount;
+    }
+  };
+
+  return {
+    open,
+    close,
+    get depth() {
+      return stack.length;
+    },
+    get count() {
+      return count;
+    },
+  };
+}
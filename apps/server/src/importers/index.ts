@@ -0,0 +1,48 @@
+import path from 'path';
+import { xmlImporter } from './xml';
+import { jsonImporter } from './json';
+import { csvImporter } from './csv';
+import { opmlImporter } from './opml';
+import type { Importer } from './types';
+
+export { PATH_SEPARATOR, generateHash } from './entryBuilder';
+
+export type {
+  Importer,
+  ParsedEntry,
+  EntryHandler,
+  SourceNode,
+  StackFrame,
+} from './types';
+
+export const importers: Importer[] = [
+  xmlImporter,
+  jsonImporter,
+  csvImporter,
+  opmlImporter,
+];
+
+/**
+ * Resolves the importer for a file, by an explicit format or by the file extension
+ * @param filePath - The path to the source file
+ * @param format - Optional format name, overrides the file extension
+ * @returns The importer
+ */
+export function resolveImporter(filePath: string, format?: string): Importer {
+  const importer = format
+    ? importers.find((i) => i.format === format.toLowerCase())
+    : importers.find((i) =>
+        i.extensions.includes(path.extname(filePath).toLowerCase())
+      );
+
+  if (!importer) {
+    const formats = importers.map((i) => i.format).join(', ');
+    throw new Error(
+      format
+        ? `Unknown format "${format}", supported formats: ${formats}`
+        : `Can't detect format of ${filePath}, use --format (${formats})`
+    );
+  }
+
+  return importer;
+}
@@ -0,0 +1,113 @@
+import { readFile } from 'fs/promises';
+import { createEntryBuilder } from './entryBuilder';
+import type { EntryHandler, Importer } from './types';
+
+interface JsonNode {
+  name?: string;
+  words?: string;
+  wnid?: string;
+  id?: string;
+  gloss?: string;
+  children?: JsonNode[];
+  [key: string]: unknown;
+}
+
+const KNOWN_KEYS = new Set([
+  'name',
+  'words',
+  'wnid',
+  'id',
+  'gloss',
+  'children',
+]);
+
+/**
+ * Collects the remaining scalar fields of a node as attributes
+ */
+function toAttributes(node: JsonNode): Record<string, string> {
+  const attributes: Record<string, string> = {};
+  for (const [key, value] of Object.entries(node)) {
+    if (KNOWN_KEYS.has(key) || value === null || typeof value === 'object') {
+      continue;
+    }
+    attributes[key] = String(value);
+  }
+  return attributes;
+}
+
+/**
+ * Checks the shape of a node, like the CSV importer rejects a file without paths
+ * @param value - The node from the document
+ * @param jsonPath - Where the node is in the document, e.g. `$[0].children[2]`
+ * @throws Error naming the path of an invalid node
+ */
+function assertJsonNode(
+  value: unknown,
+  jsonPath: string
+): asserts value is JsonNode {
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+    throw new Error(`Invalid JSON node at ${jsonPath}: expected an object`);
+  }
+
+  const { name, words, children } = value as JsonNode;
+  const label = name ?? words;
+  if (typeof label !== 'string' || label.trim() === '') {
+    throw new Error(
+      `Invalid JSON node at ${jsonPath}: "name" or "words" must be a non-empty string`
+    );
+  }
+  if (children !== undefined && !Array.isArray(children)) {
+    throw new Error(
+      `Invalid JSON node at ${jsonPath}: "children" must be an array`
+    );
+  }
+}
+
+/**
+ * Walks a nested JSON node depth-first and feeds it to the builder
+ * @param jsonPath - Where the node is in the document, for errors
+ */
+function walk(
+  value: unknown,
+  jsonPath: string,
+  builder: ReturnType<typeof createEntryBuilder>
+): void {
+  assertJsonNode(value, jsonPath);
+  const node = value;
+
+  builder.open({
+    wnid: node.wnid ?? node.id ?? null,
+    words: (node.name ?? node.words) as string,
+    gloss: node.gloss ?? null,
+    attributes: toAttributes(node),
+  });
+
+  (node.children ?? []).forEach((child, index) => {
+    walk(child, `${jsonPath}.children[${index}]`, builder);
+  });
+
+  builder.close();
+}
+
+/**
+ * Importer for nested JSON, `{ name, wnid?, gloss?, children?: [...] }`
+ * The document is a single root object or an array of roots.
+ * Unlike the SAX based importers the whole document is loaded in memory.
+ * Every node must have a non-empty `name` (or `words`), an invalid node fails the import.
+ */
+export const jsonImporter: Importer = {
+  format: 'json',
+  extensions: ['.json'],
+  parse: async (filePath: string, onEntry: EntryHandler) => {
+    const document: unknown = JSON.parse(await readFile(filePath, 'utf8'));
+
+    const builder = createEntryBuilder(onEntry);
+    if (Array.isArray(document)) {
+      document.forEach((root, index) => walk(root, `$[${index}]`, builder));
+    } else {
+      walk(document, '$', builder);
+    }
+
+    return builder.count;
+  },
+};
@@ -0,0 +1,23 @@
+import { parseSaxTree } from './sax';
+import type { Importer } from './types';
+
+/**
+ * Importer for OPML outlines (nested `<outline>` elements)
+ * `text` (or `title`) is the name, `_note` the gloss and `wnid` or `id` the identifier
+ */
+export const opmlImporter: Importer = {
+  format: 'opml',
+  extensions: ['.opml'],
+  parse: (filePath, onEntry) =>
+    parseSaxTree(
+      filePath,
+      'outline',
+      ({ text, _note, wnid, id, ...attributes }) => ({
+        wnid: wnid ?? id ?? null,
+        words: text ?? attributes.title ?? '',
+        gloss: _note ?? null,
+        attributes,
+      }),
+      onEntry
+    ),
+};
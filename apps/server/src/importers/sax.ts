@@ -0,0 +1,54 @@
+import { createReadStream } from 'fs';
+import sax from 'sax';
+import { createEntryBuilder } from './entryBuilder';
+import type { EntryHandler, SourceNode } from './types';
+
+/**
+ * Streams an XML based file through the SAX parser
+ * Every element named `tagName` is a node of the tree, nesting defines the hierarchy
+ * @param filePath - The path to the source file
+ * @param tagName - Name of the elements that are tree nodes
+ * @param toSourceNode - Maps element attributes to a source node
+ * @param onEntry - Callback invoked for every parsed entry (children before parents)
+ * @returns The number of parsed entries
+ */
+export function parseSaxTree(
+  filePath: string,
+  tagName: string,
+  toSourceNode: (attributes: Record<string, string>) => SourceNode,
+  onEntry: EntryHandler
+): Promise<number> {
+  return new Promise((resolve, reject) => {
+    const builder = createEntryBuilder(onEntry);
+
+    const input = createReadStream(filePath, { encoding: 'utf8' });
+    const saxStream = sax.createStream(true, { trim: true });
+
+    saxStream.on('opentag', (node) => {
+      if (node.name === tagName) {
+        builder.open(toSourceNode(node.attributes as Record<string, string>));
+      }
+    });
+
+    saxStream.on('closetag', (name) => {
+      if (name === tagName) {
+        try {
+          builder.close();
+        } catch (error) {
+          // Stop streaming, there is no point in parsing the rest if we can't store it
+          saxStream.removeAllListeners('closetag');
+          input.destroy();
+          reject(error);
+        }
+      }
+    });
+
+    saxStream.on('end', () => {
+      resolve(builder.count);
+    });
+    saxStream.on('error', reject);
+    input.on('error', reject);
+
+    input.pipe(saxStream);
+  });
+}
@@ -0,0 +1,58 @@
+export interface ParsedEntry {
+  hash: string;
+  parentHash: string | null;
+  name: string;
+  path: string;
+  // total descendant count (same as descendantCount, kept for existing consumers)
+  size: number;
+  // direct children
+  childCount: number;
+  // all nodes in the subtree, excluding the node itself
+  descendantCount: number;
+  // leaves in the subtree, excluding the node itself (0 for a leaf)
+  leafCount: number;
+  // distance from the root (0 for the root)
+  depth: number;
+  // position in the source document (depth-first, the root is 0)
+  ordinal: number;
+  // WordNet ID (or any other source identifier), null if the source has none
+  wnid: string | null;
+  gloss: string | null;
+  // any other attributes of the source element
+  attributes: Record<string, string>;
+}
+
+// A node as read from the source file, before it's placed in the tree
+export interface SourceNode {
+  wnid: string | null;
+  words: string;
+  gloss: string | null;
+  attributes: Record<string, string>;
+}
+
+export interface StackFrame extends SourceNode {
+  ordinal: number;
+  childCount: number;
+  descendantCount: number;
+  leafCount: number;
+}
+
+export type EntryHandler = (entry: ParsedEntry) => void;
+
+/**
+ * Importer of a single source format
+ * Every importer emits the same entry rows, so the server and UI work on any hierarchy
+ */
+export interface Importer {
+  // format name used by the `--format` flag
+  format: string;
+  // file extensions (lowercase, with dot) detected as this format
+  extensions: string[];
+  /**
+   * Parses a file and emits every entry (children before parents)
+   * @param filePath - The path to the source file
+   * @param onEntry - Callback invoked for every parsed entry
+   * @returns The number of parsed entries
+   */
+  parse(filePath: string, onEntry: EntryHandler): Promise<number>;
+}
@@ -0,0 +1,22 @@
+import { parseSaxTree } from './sax';
+import type { Importer } from './types';
+
+/**
+ * Importer for the ImageNet `structure_released.xml` (nested `<synset>` elements)
+ */
+export const xmlImporter: Importer = {
+  format: 'xml',
+  extensions: ['.xml'],
+  parse: (filePath, onEntry) =>
+    parseSaxTree(
+      filePath,
+      'synset',
+      ({ wnid, words, gloss, ...attributes }) => ({
+        wnid: wnid ?? null,
+        words,
+        gloss: gloss ?? null,
+        attributes,
+      }),
+      onEntry
+    ),
+};
@@ -0,0 +1,19 @@
+/**
+ * Returns the reasons why a name has suspicious whitespace (empty if it's fine)
+ * Shared by the validate CLI and the edit endpoints, which reject such names.
+ */
+export function getWhitespaceIssues(name: string | null): string[] {
+  if (!name || name.trim() === '') {
+    return ['empty name'];
+  }
+
+  const reasons: string[] = [];
+  if (name !== name.trim()) reasons.push('leading or trailing whitespace');
+  if (/ {2,}/.test(name)) reasons.push('repeated spaces');
+  if (/[\t\r\n]/.test(name)) reasons.push('tab or line break');
+  if (/[\u00a0\u2000-\u200b\u3000\ufeff]/.test(name)) {
+    reasons.push('non-breaking or unicode whitespace');
+  }
+  if (/\s,/.test(name)) reasons.push('whitespace before comma');
+  return reasons;
+}
@@ -1,10 +1,69 @@
-// Our Cursor shape is a composite key of name and hash
-// we have a duplicates of a path name under the same parent hash, so we need to use the hash to differentiate them
-export interface CursorData {
-  name: string;
+// Search cursor shape is a composite key of the relevance score and hash
+// many matches share the same score, so we need to use the hash to differentiate them
+export interface SearchCursorData {
+  score: number;
   hash: string;
 }
 
+// Orders the children of a node can be listed in, `-` prefix means descending
+export const CHILDREN_SORTS = [
+  'document',
+  'name',
+  '-name',
+  'size',
+  '-size',
+] as const;
+
+export type ChildrenSort = (typeof CHILDREN_SORTS)[number];
+
+// Keyset cursor of a children sort: the sort key of the last item and its hash as the tie-breaker
+export interface SortCursorData {
+  sort: ChildrenSort;
+  key: string | number;
+  hash: string;
+}
+
+interface ChildrenSortOrder {
+  // ORDER BY clause
+  orderBy: string;
+  // condition selecting the rows after the cursor, parameters are (key, key, hash)
+  after: string;
+  // sort key of a row
+  keyOf: (row: {
+    name: string;
+    size: number;
+    ordinal: number;
+  }) => string | number;
+}
+
+const CHILDREN_SORT_ORDERS: Record<ChildrenSort, ChildrenSortOrder> = {
+  document: {
+    orderBy: 'ordinal ASC, hash ASC',
+    after: '(ordinal > ? OR (ordinal = ? AND hash > ?))',
+    keyOf: (row) => row.ordinal,
+  },
+  name: {
+    orderBy: 'LOWER(name) ASC, hash ASC',
+    after: '(LOWER(name) > ? OR (LOWER(name) = ? AND hash > ?))',
+    keyOf: (row) => row.name.toLowerCase(),
+  },
+  '-name': {
+    orderBy: 'LOWER(name) DESC, hash DESC',
+    after: '(LOWER(name) < ? OR (LOWER(name) = ? AND hash < ?))',
+    keyOf: (row) => row.name.toLowerCase(),
+  },
+  size: {
+    orderBy: 'size ASC, hash ASC',
+    after: '(size > ? OR (size = ? AND hash > ?))',
+    keyOf: (row) => row.size,
+  },
+  '-size': {
+    orderBy: 'size DESC, hash DESC',
+    after: '(size < ? OR (size = ? AND hash < ?))',
+    keyOf: (row) => row.size,
+  },
+};
+
 export interface PaginationResponse {
   limit: number;
   hasMore: boolean;
@@ -13,11 +72,13 @@ export interface PaginationResponse {
 }
 
 /**
- * Decodes a base64-encoded cursor string into name and hash
+ * Decodes a base64-encoded search cursor string into score and hash
  * @param cursor - The base64-encoded cursor string (URL-safe)
  * @returns Decoded cursor data or null if invalid
  */
-export function decodeCursor(cursor: string | undefined): CursorData | null {
+export function decodeSearchCursor(
+  cursor: string | undefined
+): SearchCursorData | null {
   if (!cursor) {
     return null;
   }
@@ -29,8 +90,11 @@ export function decodeCursor(cursor: string | undefined): CursorData | null {
       'utf-8'
     );
     const decoded = JSON.parse(decodedString);
+    if (typeof decoded.score !== 'number' || typeof decoded.hash !== 'string') {
+      return null;
+    }
     return {
-      name: decoded.name.toLowerCase(),
+      score: decoded.score,
       hash: decoded.hash,
     };
   } catch {
@@ -39,16 +103,102 @@ export function decodeCursor(cursor: string | undefined): CursorData | null {
 }
 
 /**
- * Encodes cursor data (name and hash) into a URL-safe base64-encoded string
+ * Encodes search cursor data (score and hash) into a URL-safe base64-encoded string
+ * JSON keeps the exact double value of the score, so the next page starts right after it
  * @param data - The cursor data to encode
  * @returns URL-safe base64-encoded cursor string
  */
-export function encodeCursor(data: CursorData): string {
-  const jsonString = JSON.stringify({ name: data.name, hash: data.hash });
+export function encodeSearchCursor(data: SearchCursorData): string {
+  const jsonString = JSON.stringify({ score: data.score, hash: data.hash });
   const base64 = Buffer.from(jsonString, 'utf-8').toString('base64');
   return toUrlSafeBase64(base64);
 }
 
+/**
+ * Parses the `sort` query parameter of the children endpoint
+ * @param value - The query parameter value
+ * @returns The sort, `name` if not provided, or null if invalid
+ */
+export function parseChildrenSort(value: unknown): ChildrenSort | null {
+  if (value === undefined) {
+    return 'name';
+  }
+  return CHILDREN_SORTS.find((sort) => sort === value) ?? null;
+}
+
+/**
+ * Gets the SQL fragments of a children sort
+ * @param sort - The sort
+ * @returns The ORDER BY clause and the condition selecting rows after a cursor
+ */
+export function getChildrenSortOrder(
+  sort: ChildrenSort
+): Pick<ChildrenSortOrder, 'orderBy' | 'after'> {
+  const { orderBy, after } = CHILDREN_SORT_ORDERS[sort];
+  return { orderBy, after };
+}
+
+/**
+ * Builds the keyset cursor data of a row for a children sort
+ * @param sort - The sort
+ * @param row - The last row of the page
+ * @returns The cursor data
+ */
+export function toSortCursorData(
+  sort: ChildrenSort,
+  row: { hash: string; name: string; size: number; ordinal: number }
+): SortCursorData {
+  return { sort, key: CHILDREN_SORT_ORDERS[sort].keyOf(row), hash: row.hash };
+}
+
+/**
+ * Decodes a base64-encoded children sort cursor
+ * A cursor is only valid for the sort it was created with
+ * @param cursor - The base64-encoded cursor string (URL-safe)
+ * @param sort - The sort of the requested page
+ * @returns Decoded cursor data or null if invalid
+ */
+export function decodeSortCursor(
+  cursor: string | undefined,
+  sort: ChildrenSort
+): SortCursorData | null {
+  if (!cursor) {
+    return null;
+  }
+
+  try {
+    const decoded = JSON.parse(
+      Buffer.from(fromUrlSafeBase64(cursor), 'base64').toString('utf-8')
+    );
+    const expectedKeyType =
+      sort === 'name' || sort === '-name' ? 'string' : 'number';
+    if (
+      decoded.sort !== sort ||
+      typeof decoded.key !== expectedKeyType ||
+      typeof decoded.hash !== 'string'
+    ) {
+      return null;
+    }
+    return { sort, key: decoded.key, hash: decoded.hash };
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Encodes children sort cursor data into a URL-safe base64-encoded string
+ * @param data - The cursor data to encode
+ * @returns URL-safe base64-encoded cursor string
+ */
+export function encodeSortCursor(data: SortCursorData): string {
+  const jsonString = JSON.stringify({
+    sort: data.sort,
+    key: data.key,
+    hash: data.hash,
+  });
+  return toUrlSafeBase64(Buffer.from(jsonString, 'utf-8').toString('base64'));
+}
+
 /**
  * Builds a pagination response object
  * @param options - Configuration options for pagination response
@@ -57,7 +207,7 @@ export function encodeCursor(data: CursorData): string {
 export function buildPaginationResponse(options: {
   limit: number;
   hasMore: boolean;
-  lastItem?: CursorData | null;
+  lastItem?: SearchCursorData | SortCursorData | null;
   buildNextUrl: (cursor: string) => string;
 }): PaginationResponse {
   const { limit, hasMore, lastItem, buildNextUrl } = options;
@@ -68,7 +218,10 @@ export function buildPaginationResponse(options: {
   };
 
   if (hasMore && lastItem) {
-    const nextCursor = encodeCursor(lastItem);
+    const nextCursor =
+      'sort' in lastItem
+        ? encodeSortCursor(lastItem)
+        : encodeSearchCursor(lastItem);
     response.nextCursor = nextCursor;
     response.nextChildrenUrl = buildNextUrl(nextCursor);
   }
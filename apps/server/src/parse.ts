@@ -1,128 +1,121 @@
-import { createHash } from 'crypto';
-import { createReadStream } from 'fs';
-import { writeFile } from 'fs/promises';
+import { createWriteStream, type WriteStream } from 'fs';
 import path from 'path';
-import sax from 'sax';
-import { initializeDatabase } from './db';
-
-export interface ParsedEntry {
-  hash: string;
-  parentHash: string | null;
-  name: string;
-  path: string;
-  size: number;
-}
+import { parseArgs } from 'util';
+import type Database from 'better-sqlite3';
+import { initializeDatabase, resolveDatabasePath } from './db';
+import { importers, resolveImporter, type ParsedEntry } from './importers';
+import {
+  STAGING_TABLE,
+  applyChangeset,
+  computeChangeset,
+  createStagingTable,
+  formatChangeset,
+  replaceNodes,
+} from './diff';
+import { rebuildFuzzyIndex } from './fuzzy';
 
-export interface StackFrame {
-  wnid: string;
-  words: string;
-  childCount: number;
-}
+// Number of rows written per transaction while streaming
+const BATCH_SIZE = 1000;
 
 const ASSETS_PATH = path.join(__dirname, 'assets');
-const xmlFilePath = path.join(ASSETS_PATH, 'structure_released.xml');
-const outputFilePath = path.join(ASSETS_PATH, 'out.json');
+const defaultInputFilePath = path.join(ASSETS_PATH, 'structure_released.xml');
 
-/**
- * Generates a hash for a given wnid and path
- * @param wnid - The wnid of the entry
- * @param path - The path of the entry
- * @returns The hash of the entry
- */
-function generateHash(wnid: string, path: string): string {
-  const compositeKey = `${wnid}::${path}`;
-  return createHash('md5').update(compositeKey).digest('hex');
+const USAGE = `Usage: parse [options]
+
+Options:
+  --input <file>           Source file (default: assets/structure_released.xml)
+  --format <format>        Source format: ${importers
+    .map((i) => i.format)
+    .join(', ')} (default: by file extension)
+  --db <file>              Database file (default: $DATABASE_PATH or assets/database.db)
+  --json-dump <file|none>  Also write all entries to a JSON file (default: none)
+  --replace                Replace all existing nodes once the source is parsed (default)
+  --append                 Keep existing nodes, entries with the same hash are replaced
+  --incremental            Diff the source against existing nodes and apply only the changes
+  --dry-run                Only parse the source and report counts, nothing is written
+                           (with --incremental, reports the changes without applying them)
+  --help                   Show this message`;
+
+export interface ParseOptions {
+  input: string;
+  format?: string;
+  db: string;
+  jsonDump: string | null;
+  mode: 'replace' | 'append' | 'incremental';
+  dryRun: boolean;
 }
 
 /**
- * Parses an XML file and returns an array of parsed entries
- * @param filePath - The path to the XML file
- * @returns An array of parsed entries
+ * Parses command line arguments into parse options
+ * @param args - The command line arguments (without node and script path)
+ * @returns The parse options, or null if help was requested
  */
-async function parseXml(filePath: string): Promise<ParsedEntry[]> {
-  return new Promise((resolve, reject) => {
-    const entries: ParsedEntry[] = [];
-    const stack: StackFrame[] = [];
-
-    const saxStream = sax.createStream(true, { trim: true });
-
-    saxStream.on('opentag', (node) => {
-      if (node.name === 'synset') {
-        const { wnid, words } = node.attributes as {
-          wnid: string;
-          words: string;
-        };
-
-        // Push current synset onto stack
-        stack.push({ wnid, words, childCount: 0 });
-
-        // Increment parent's child count
-        if (stack.length > 1) {
-          stack[stack.length - 2].childCount++;
-        }
-      }
-    });
+export function parseCliOptions(args: string[]): ParseOptions | null {
+  const { values } = parseArgs({
+    args,
+    options: {
+      input: { type: 'string' },
+      format: { type: 'string' },
+      db: { type: 'string' },
+      'json-dump': { type: 'string' },
+      replace: { type: 'boolean' },
+      append: { type: 'boolean' },
+      incremental: { type: 'boolean' },
+      'dry-run': { type: 'boolean' },
+      help: { type: 'boolean' },
+    },
+  });
 
-    saxStream.on('closetag', (tagName) => {
-      if (tagName === 'synset') {
-        const current = stack.pop() as StackFrame;
-
-        // Build full path from stack
-        const path = [...stack.map((s) => s.words), current.words].join(' > ');
-
-        // Calculate current entry's hash
-        const hash = generateHash(current.wnid, path);
-
-        // Calculate parent hash (if parent exists)
-        let parentHash: string | null = null;
-        if (stack.length > 0) {
-          // Build parent path
-          const parentPath = stack.map((s) => s.words).join(' > ');
-          // Get parent from stack
-          const parent = stack[stack.length - 1];
-          parentHash = generateHash(parent.wnid, parentPath);
-        }
-
-        // Create entry (without wnid - deduplicating by name only)
-        const entry: ParsedEntry = {
-          hash,
-          parentHash,
-          path,
-          name: current.words,
-          size: current.childCount,
-        };
-
-        entries.push(entry);
-
-        // Propagate descendant count up to parent
-        if (stack.length > 0) {
-          stack[stack.length - 1].childCount += current.childCount;
-        }
-      }
-    });
+  if (values.help) {
+    return null;
+  }
 
-    saxStream.on('end', () => {
-      resolve(entries);
-    });
-    saxStream.on('error', reject);
+  const modes = [values.replace, values.append, values.incremental].filter(
+    Boolean
+  );
+  if (modes.length > 1) {
+    throw new Error(
+      'Only one of --replace, --append and --incremental can be used'
+    );
+  }
 
-    createReadStream(filePath, { encoding: 'utf8' }).pipe(saxStream);
-  });
+  const jsonDump = values['json-dump'];
+
+  return {
+    input: values.input ? path.resolve(values.input) : defaultInputFilePath,
+    format: values.format,
+    db: values.db ? path.resolve(values.db) : resolveDatabasePath(),
+    jsonDump: jsonDump && jsonDump !== 'none' ? path.resolve(jsonDump) : null,
+    mode: values.append
+      ? 'append'
+      : values.incremental
+      ? 'incremental'
+      : 'replace',
+    dryRun: values['dry-run'] ?? false,
+  };
 }
 
 /**
- * Stores an array of parsed entries in the database
- * @param entries - The array of parsed entries
+ * Creates a batched writer that stores parsed entries in the database
+ * Entries are buffered and flushed in a single transaction every `batchSize` rows,
+ * so memory usage stays flat no matter how big the source file is
+ * @param db - The database connection
+ * @param batchSize - Number of entries per transaction
+ * @param table - The table to write into
+ * @returns Writer with `write` and `flush` functions
  */
-async function store(entries: ParsedEntry[]) {
-  const db = initializeDatabase();
-
-  // Temporarily disable foreign key constraints during bulk import
-  db.pragma('foreign_keys = OFF');
-
+export function createEntryWriter(
+  db: Database.Database,
+  batchSize = BATCH_SIZE,
+  table = 'nodes'
+) {
   const insert = db.prepare(`
-    INSERT OR REPLACE INTO nodes (hash, parentHash, name, path, size)
-    VALUES (?, ?, ?, ?, ?)
+    INSERT OR REPLACE INTO ${table} (
+      hash, parentHash, name, path, size,
+      childCount, descendantCount, leafCount, depth, ordinal,
+      wnid, gloss, attributes
+    )
+    VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
   `);
 
   const insertMany = db.transaction((entries: ParsedEntry[]) => {
@@ -132,38 +125,179 @@ async function store(entries: ParsedEntry[]) {
         entry.parentHash,
         entry.name,
         entry.path,
-        entry.size
+        entry.size,
+        entry.childCount,
+        entry.descendantCount,
+        entry.leafCount,
+        entry.depth,
+        entry.ordinal,
+        entry.wnid,
+        entry.gloss,
+        JSON.stringify(entry.attributes)
       );
     }
   });
 
-  insertMany(entries);
+  let batch: ParsedEntry[] = [];
+
+  const flush = () => {
+    if (batch.length === 0) {
+      return;
+    }
+    insertMany(batch);
+    batch = [];
+  };
 
-  // Re-enable foreign key constraints
-  db.pragma('foreign_keys = ON');
-  db.close();
+  const write = (entry: ParsedEntry) => {
+    batch.push(entry);
+    if (batch.length >= batchSize) {
+      flush();
+    }
+  };
 
-  console.log(`${entries.length} entries stored in database`);
+  return { write, flush };
 }
 
 /**
- * Main function to parse the XML file, store the entries in the database, and write the output to a file
+ * Creates a writer that streams parsed entries into a JSON array file
+ * @param filePath - The path to the output file
+ * @returns Writer with `write` and `close` functions
  */
-async function main() {
+function createJsonDump(filePath: string) {
+  const stream: WriteStream = createWriteStream(filePath, { encoding: 'utf8' });
+  let first = true;
+
+  stream.write('[\n');
+
+  const write = (entry: ParsedEntry) => {
+    stream.write(`${first ? '' : ',\n'}${JSON.stringify(entry)}`);
+    first = false;
+  };
+
+  const close = () =>
+    new Promise<void>((resolve, reject) => {
+      stream.on('error', reject);
+      stream.end('\n]\n', () => resolve());
+    });
+
+  return { write, close };
+}
+
+/**
+ * Parses the source without writing anything and reports counts
+ * @param options - The parse options
+ */
+async function dryRun(options: ParseOptions) {
+  const importer = resolveImporter(options.input, options.format);
+
+  let roots = 0;
+  let leaves = 0;
+  const count = await importer.parse(options.input, (entry) => {
+    if (entry.parentHash === null) roots++;
+    if (entry.size === 0) leaves++;
+  });
+
+  console.log(`Dry run of ${options.input} (${importer.format})`);
+  console.log(`${count} entries parsed`);
+  console.log(`${roots} roots, ${leaves} leaves`);
+}
+
+/**
+ * Streams the source file into the database
+ * @param options - The parse options
+ */
+async function importFile(options: ParseOptions) {
   const startTime = Date.now();
+  const importer = resolveImporter(options.input, options.format);
+  const jsonDump = options.jsonDump ? createJsonDump(options.jsonDump) : null;
+
+  const db = initializeDatabase(options.db);
+  const isIncremental = options.mode === 'incremental';
+  // The whole release is staged first, to diff it against existing nodes (incremental)
+  // or to swap it in only once the source parsed without errors (replace)
+  const isStaged = options.mode !== 'append';
+
+  if (isStaged) {
+    createStagingTable(db);
+  }
+
+  // Temporarily disable foreign key constraints during bulk import
+  // (children are emitted before their parents)
+  db.pragma('foreign_keys = OFF');
+
+  const writer = createEntryWriter(
+    db,
+    BATCH_SIZE,
+    isStaged ? STAGING_TABLE : 'nodes'
+  );
+
+  try {
+    const count = await importer.parse(options.input, (entry) => {
+      writer.write(entry);
+      jsonDump?.write(entry);
+    });
+    writer.flush();
 
-  const entries = await parseXml(xmlFilePath);
-  await writeFile(outputFilePath, JSON.stringify(entries, null, 2), 'utf8');
-  await store(entries);
+    const endTime = Date.now();
+    const duration = endTime - startTime;
 
-  const endTime = Date.now();
-  const duration = endTime - startTime;
+    console.log(`Parsing ${importer.format} complete in ${duration}ms`);
 
-  console.log(`Parsing complete in ${duration}ms`);
-  console.log(`${entries.length} entries parsed`);
-  console.log(`Output written to ${outputFilePath}`);
+    if (isIncremental) {
+      const changeset = computeChangeset(db);
+      console.log(formatChangeset(changeset));
+
+      if (options.dryRun) {
+        console.log('Dry run, no changes applied');
+      } else {
+        applyChangeset(db);
+        console.log(`${count} entries applied to ${options.db} (incremental)`);
+      }
+    } else {
+      if (options.mode === 'replace') {
+        replaceNodes(db);
+      }
+      console.log(`${count} entries stored in ${options.db} (${options.mode})`);
+    }
+
+    if (!options.dryRun) {
+      const terms = rebuildFuzzyIndex(db);
+      console.log(`Fuzzy search index rebuilt with ${terms} terms`);
+    }
+  } finally {
+    // Re-enable foreign key constraints
+    db.pragma('foreign_keys = ON');
+    db.close();
+    await jsonDump?.close();
+  }
+
+  if (jsonDump) {
+    console.log(`Output written to ${options.jsonDump}`);
+  }
+}
+
+/**
+ * Main function, run with `--help` for the list of options
+ */
+async function main() {
+  const options = parseCliOptions(process.argv.slice(2));
+
+  if (!options) {
+    console.log(USAGE);
+    return;
+  }
+
+  // Incremental dry run needs the database to compute the changes
+  if (options.dryRun && options.mode !== 'incremental') {
+    await dryRun(options);
+  } else {
+    await importFile(options);
+  }
 }
 
 if (require.main === module) {
-  main().catch(console.error);
+  main().catch((error) => {
+    console.error(error instanceof Error ? error.message : error);
+    process.exitCode = 1;
+  });
 }
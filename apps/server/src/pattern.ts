@@ -0,0 +1,202 @@
+import type Database from 'better-sqlite3';
+import { PATH_SEPARATOR } from './importers';
+
+// Deeper patterns are rejected, the matcher checks every level of a path against every level of the pattern
+const MAX_PATTERN_SEGMENTS = 10;
+
+// At most this many `**` levels in a pattern
+const MAX_ANY_LEVELS = 3;
+
+// Name of the SQL function matching a path against a pattern: path_matches(pattern, path)
+export const PATH_MATCHES_FUNCTION = 'path_matches';
+
+/**
+ * Error of an invalid path pattern
+ */
+export class PathPatternError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'PathPatternError';
+  }
+}
+
+/**
+ * Matches a whole path, e.g. `entity > animal > dog, domestic dog`
+ */
+export type PathMatcher = (path: string) => boolean;
+
+/**
+ * Builds the case-insensitive matcher of a glob over a single synonym, where `*` stands for any text
+ * The first and last parts are anchored, the parts between them are found in order, leftmost first,
+ * so a synonym is matched in linear time however many stars the glob has.
+ */
+function globMatcher(glob: string): (text: string) => boolean {
+  const parts = glob.toLowerCase().split('*');
+  const first = parts[0];
+  if (parts.length === 1) {
+    return (text) => text.toLowerCase() === first;
+  }
+  const last = parts[parts.length - 1];
+  const middle = parts.slice(1, -1).filter((part) => part !== '');
+
+  return (text) => {
+    const lower = text.toLowerCase();
+    const end = lower.length - last.length;
+    if (
+      end < first.length ||
+      !lower.startsWith(first) ||
+      !lower.endsWith(last)
+    ) {
+      return false;
+    }
+
+    let position = first.length;
+    for (const part of middle) {
+      const index = lower.indexOf(part, position);
+      if (index === -1 || index + part.length > end) {
+        return false;
+      }
+      position = index + part.length;
+    }
+    return true;
+  };
+}
+
+/**
+ * Builds the matcher of one level of a path pattern
+ * `*` matches any name, other levels match a name if any of its synonyms matches the glob,
+ * e.g. `*berry` matches `blueberry, blueberry bush`, `dog` matches `dog, domestic dog`
+ */
+function levelMatcher(glob: string): (name: string) => boolean {
+  if (glob === '*') {
+    return () => true;
+  }
+  const matches = globMatcher(glob);
+  return (name) => name.split(',').some((synonym) => matches(synonym.trim()));
+}
+
+/**
+ * Compiles a path pattern to a matcher of the `path` column
+ * Segments are separated by `>`, `*` matches one level, `**` any number of levels (also none),
+ * other segments match a synonym of the name, where `*` stands for any text.
+ * The pattern can start at any level, the last segment is the matched node.
+ *
+ * The path is split into levels and matched level by level, keeping the set of pattern levels
+ * reached so far (an NFA over the levels), so a path is matched in levels × pattern levels steps
+ * no matter how many `**` the pattern has.
+ * @param pattern - The pattern, e.g. `animal > * > dog` or `plant > ** > *berry`
+ * @returns The case-insensitive matcher
+ * @throws PathPatternError if the pattern is invalid
+ */
+export function compilePathPattern(pattern: string): PathMatcher {
+  const segments = pattern.split('>').map((segment) => segment.trim());
+
+  if (segments.length > MAX_PATTERN_SEGMENTS) {
+    throw new PathPatternError(
+      `Pattern has ${segments.length} levels, at most ${MAX_PATTERN_SEGMENTS} are allowed`
+    );
+  }
+  const emptyIndex = segments.findIndex((segment) => segment === '');
+  if (emptyIndex !== -1) {
+    throw new PathPatternError(
+      `Level ${emptyIndex + 1} of the pattern is empty`
+    );
+  }
+  if (segments.every((segment) => segment === '**')) {
+    throw new PathPatternError('Pattern needs at least one level besides **');
+  }
+  const anyLevels = segments.filter((segment) => segment === '**').length;
+  if (anyLevels > MAX_ANY_LEVELS) {
+    throw new PathPatternError(
+      `Pattern has ${anyLevels} ** levels, at most ${MAX_ANY_LEVELS} are allowed`
+    );
+  }
+
+  // The pattern can start at any level, as if it started with `**`
+  const levels = ['**'];
+  for (const segment of segments) {
+    // Consecutive `**` are the same as one
+    if (segment !== '**' || levels[levels.length - 1] !== '**') {
+      levels.push(segment);
+    }
+  }
+  const matchers = levels.map((segment) =>
+    segment === '**' ? null : levelMatcher(segment)
+  );
+
+  // Adds the states reachable by skipping `**` levels (they also match no level)
+  const skipAnyLevels = (states: Set<number>): Set<number> => {
+    for (const state of states) {
+      if (levels[state] === '**') {
+        states.add(state + 1);
+      }
+    }
+    return states;
+  };
+
+  return (path) => {
+    // State i: the first i pattern levels matched the path levels so far
+    let states = skipAnyLevels(new Set([0]));
+
+    for (const name of path.split(PATH_SEPARATOR)) {
+      const next = new Set<number>();
+      for (const state of states) {
+        const matcher = matchers[state];
+        if (matcher === null) {
+          // `**` takes the level and can take more
+          next.add(state);
+        } else if (matcher?.(name)) {
+          next.add(state + 1);
+        }
+      }
+      if (next.size === 0) {
+        return false;
+      }
+      states = skipAnyLevels(next);
+    }
+
+    return states.has(levels.length);
+  };
+}
+
+/**
+ * Finds the synonym of a matched node that the last level of a path pattern matched
+ * @param pattern - The valid pattern
+ * @param synonyms - The synonyms of the node, primary label first
+ * @returns The first matching synonym, or null if the last level is `*` or `**` (it matches any name)
+ */
+export function findPatternSynonym(
+  pattern: string,
+  synonyms: string[]
+): string | null {
+  const glob = pattern.split('>').pop()?.trim() ?? '';
+  if (glob === '*' || glob === '**') {
+    return null;
+  }
+
+  const matches = globMatcher(glob);
+  return synonyms.find((synonym) => matches(synonym)) ?? null;
+}
+
+/**
+ * Registers the `path_matches(pattern, path)` SQL function
+ * The last compiled pattern is kept, a query runs the function with the same pattern on every row.
+ * @param db - The database connection
+ */
+export function registerPathPatternFunction(db: Database.Database): void {
+  let last: { pattern: string; matches: PathMatcher } | null = null;
+
+  db.function(
+    PATH_MATCHES_FUNCTION,
+    { deterministic: true },
+    (pattern: unknown, path: unknown) => {
+      if (typeof pattern !== 'string' || typeof path !== 'string') {
+        return 0;
+      }
+      if (last?.pattern !== pattern) {
+        last = { pattern, matches: compilePathPattern(pattern) };
+      }
+      return last.matches(path) ? 1 : 0;
+    }
+  );
+}
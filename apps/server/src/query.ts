@@ -0,0 +1,397 @@
+import { PATH_SEPARATOR } from './importers';
+
+/**
+ * Syntax error of a structured query, with the position it was found at
+ */
+export class QuerySyntaxError extends Error {
+  constructor(
+    message: string,
+    // character offset in the query
+    readonly position: number
+  ) {
+    super(message);
+    this.name = 'QuerySyntaxError';
+  }
+}
+
+type TokenType =
+  | 'word'
+  | 'string'
+  | 'operator'
+  | 'lparen'
+  | 'rparen'
+  | 'and'
+  | 'or'
+  | 'not'
+  | 'end';
+
+interface Token {
+  type: TokenType;
+  value: string;
+  position: number;
+}
+
+// Longer queries are rejected, every term adds a level to the compiled condition
+const MAX_QUERY_LENGTH = 1000;
+
+// Deepest nesting of parentheses and NOT, the parser recurses once per level
+const MAX_QUERY_DEPTH = 32;
+
+const OPERATORS = [':', '>=', '<=', '!=', '>', '<', '='] as const;
+
+type Operator = (typeof OPERATORS)[number];
+
+// Fields compared as text, by their SQL expression on the matched node `n`
+const TEXT_FIELDS: Record<string, string> = {
+  name: 'n.name',
+  path: 'n.path',
+  gloss: 'n.gloss',
+  wnid: 'n.wnid',
+  // path of the parent, so any ancestor name matches
+  under: `substr(n.path, 1, max(length(n.path) - length(n.name) - ${PATH_SEPARATOR.length}, 0))`,
+};
+
+// Fields compared as numbers
+const NUMBER_FIELDS: Record<string, string> = {
+  size: 'n.size',
+  depth: 'n.depth',
+  children: 'n.childCount',
+  leaves: 'n.leafCount',
+};
+
+export const QUERY_FIELDS = [
+  ...Object.keys(TEXT_FIELDS),
+  ...Object.keys(NUMBER_FIELDS),
+];
+
+type QueryNode =
+  | { type: 'and' | 'or'; left: QueryNode; right: QueryNode }
+  | { type: 'not'; operand: QueryNode }
+  | { type: 'condition'; field: string; operator: Operator; value: string };
+
+export interface CompiledQuery {
+  // condition on the matched node `n`
+  sql: string;
+  params: (string | number)[];
+}
+
+/**
+ * Splits a structured query into tokens
+ * @param query - The query
+ * @returns The tokens, ending with an `end` token
+ */
+function tokenize(query: string): Token[] {
+  const tokens: Token[] = [];
+  let i = 0;
+
+  while (i < query.length) {
+    const char = query[i];
+
+    if (/\s/.test(char)) {
+      i++;
+      continue;
+    }
+
+    if (char === '(' || char === ')') {
+      tokens.push({
+        type: char === '(' ? 'lparen' : 'rparen',
+        value: char,
+        position: i,
+      });
+      i++;
+      continue;
+    }
+
+    // Quoted string, `\"` and `\\` are escapes
+    if (char === '"') {
+      const start = i;
+      let value = '';
+      i++;
+      while (i < query.length && query[i] !== '"') {
+        if (query[i] === '\\' && i + 1 < query.length) {
+          i++;
+        }
+        value += query[i];
+        i++;
+      }
+      if (i >= query.length) {
+        throw new QuerySyntaxError(
+          `Unterminated string starting at position ${start}`,
+          start
+        );
+      }
+      i++;
+      tokens.push({ type: 'string', value, position: start });
+      continue;
+    }
+
+    const operator = OPERATORS.find((op) => query.startsWith(op, i));
+    if (operator) {
+      tokens.push({ type: 'operator', value: operator, position: i });
+      i += operator.length;
+      continue;
+    }
+
+    // Bare word, up to a space, parenthesis, quote or operator
+    const start = i;
+    while (i < query.length && !/[\s()":<>=!]/.test(query[i])) {
+      i++;
+    }
+    if (i === start) {
+      throw new QuerySyntaxError(
+        `Unexpected character '${char}' at position ${i}`,
+        i
+      );
+    }
+    const value = query.slice(start, i);
+    const keyword = { AND: 'and', OR: 'or', NOT: 'not' }[value] as
+      | TokenType
+      | undefined;
+    tokens.push({ type: keyword ?? 'word', value, position: start });
+  }
+
+  tokens.push({ type: 'end', value: '', position: query.length });
+  return tokens;
+}
+
+/**
+ * Describes a token for error messages
+ */
+function describe(token: Token): string {
+  return token.type === 'end' ? 'end of query' : `'${token.value}'`;
+}
+
+/**
+ * Parses a structured query
+ *
+ * Grammar (`AND` can be left out between two terms):
+ *   or        := and ("OR" and)*
+ *   and       := not ("AND"? not)*
+ *   not       := "NOT" not | primary
+ *   primary   := "(" or ")" | field operator value | value
+ *   operator  := ":" | "=" | "!=" | ">" | ">=" | "<" | "<="
+ *   value     := word | "quoted string"
+ *
+ * A value without a field matches the name.
+ * @param query - The query, e.g. `name:oak AND under:"woody plant" AND size>10 AND NOT path:fossil`
+ * @returns The syntax tree
+ * @throws QuerySyntaxError if the query is invalid
+ */
+function parse(query: string): QueryNode {
+  if (query.length > MAX_QUERY_LENGTH) {
+    throw new QuerySyntaxError(
+      `Query is longer than ${MAX_QUERY_LENGTH} characters`,
+      MAX_QUERY_LENGTH
+    );
+  }
+
+  const tokens = tokenize(query);
+  let index = 0;
+  let depth = 0;
+
+  const peek = () => tokens[index];
+  const next = () => tokens[index++];
+
+  // Parses the operand of a parenthesis or NOT one level deeper
+  const nested = (token: Token, parseOperand: () => QueryNode): QueryNode => {
+    if (depth === MAX_QUERY_DEPTH) {
+      throw new QuerySyntaxError(
+        `Query nests deeper than ${MAX_QUERY_DEPTH} levels at position ${token.position}`,
+        token.position
+      );
+    }
+    depth++;
+    const node = parseOperand();
+    depth--;
+    return node;
+  };
+
+  const parseOr = (): QueryNode => {
+    let left = parseAnd();
+    while (peek().type === 'or') {
+      next();
+      left = { type: 'or', left, right: parseAnd() };
+    }
+    return left;
+  };
+
+  const parseAnd = (): QueryNode => {
+    let left = parseNot();
+    for (;;) {
+      const token = peek();
+      if (token.type === 'and') {
+        next();
+      } else if (!['word', 'string', 'lparen', 'not'].includes(token.type)) {
+        return left;
+      }
+      left = { type: 'and', left, right: parseNot() };
+    }
+  };
+
+  const parseNot = (): QueryNode => {
+    if (peek().type === 'not') {
+      const token = next();
+      return { type: 'not', operand: nested(token, parseNot) };
+    }
+    return parsePrimary();
+  };
+
+  const parsePrimary = (): QueryNode => {
+    const token = next();
+
+    if (token.type === 'lparen') {
+      const node = nested(token, parseOr);
+      const closing = next();
+      if (closing.type !== 'rparen') {
+        throw new QuerySyntaxError(
+          `Expected ')' to close '(' at position ${
+            token.position
+          }, found ${describe(closing)}`,
+          closing.position
+        );
+      }
+      return node;
+    }
+
+    if (token.type === 'string') {
+      return {
+        type: 'condition',
+        field: 'name',
+        operator: ':',
+        value: token.value,
+      };
+    }
+
+    if (token.type !== 'word') {
+      throw new QuerySyntaxError(
+        `Expected a term at position ${token.position}, found ${describe(
+          token
+        )}`,
+        token.position
+      );
+    }
+
+    // A bare word matches the name
+    if (peek().type !== 'operator') {
+      return {
+        type: 'condition',
+        field: 'name',
+        operator: ':',
+        value: token.value,
+      };
+    }
+
+    const field = token.value.toLowerCase();
+    const operator = next();
+    if (!QUERY_FIELDS.includes(field)) {
+      throw new QuerySyntaxError(
+        `Unknown field '${token.value}' at position ${
+          token.position
+        }, expected one of: ${QUERY_FIELDS.join(', ')}`,
+        token.position
+      );
+    }
+
+    const value = next();
+    if (value.type !== 'word' && value.type !== 'string') {
+      throw new QuerySyntaxError(
+        `Expected a value after '${token.value}${operator.value}' at position ${
+          value.position
+        }, found ${describe(value)}`,
+        value.position
+      );
+    }
+
+    const isNumberField = field in NUMBER_FIELDS;
+    if (isNumberField && !/^\d+$/.test(value.value)) {
+      throw new QuerySyntaxError(
+        `Expected a non-negative integer for '${field}' at position ${value.position}, found '${value.value}'`,
+        value.position
+      );
+    }
+    if (!isNumberField && !['=', '!=', ':'].includes(operator.value)) {
+      throw new QuerySyntaxError(
+        `Operator '${operator.value}' at position ${operator.position} only compares numbers, '${field}' is text`,
+        operator.position
+      );
+    }
+    if (field === 'under' && operator.value !== ':') {
+      throw new QuerySyntaxError(
+        `Field 'under' at position ${token.position} only supports ':'`,
+        operator.position
+      );
+    }
+
+    return {
+      type: 'condition',
+      field,
+      operator: operator.value as Operator,
+      value: value.value,
+    };
+  };
+
+  if (peek().type === 'end') {
+    throw new QuerySyntaxError('Empty query', 0);
+  }
+
+  const root = parseOr();
+  const rest = peek();
+  if (rest.type !== 'end') {
+    throw new QuerySyntaxError(
+      `Unexpected ${describe(rest)} at position ${rest.position}`,
+      rest.position
+    );
+  }
+  return root;
+}
+
+/**
+ * Compiles a syntax tree to a parameterised SQL condition
+ * @param node - The syntax tree
+ * @returns The SQL condition and its parameters
+ */
+function compile(node: QueryNode): CompiledQuery {
+  switch (node.type) {
+    case 'and':
+    case 'or': {
+      const left = compile(node.left);
+      const right = compile(node.right);
+      return {
+        sql: `(${left.sql} ${node.type.toUpperCase()} ${right.sql})`,
+        params: [...left.params, ...right.params],
+      };
+    }
+    case 'not': {
+      const operand = compile(node.operand);
+      return { sql: `(NOT ${operand.sql})`, params: operand.params };
+    }
+    case 'condition': {
+      const { field, operator, value } = node;
+
+      if (field in NUMBER_FIELDS) {
+        const sqlOperator = operator === ':' ? '=' : operator;
+        return {
+          sql: `${NUMBER_FIELDS[field]} ${sqlOperator} ?`,
+          params: [Number(value)],
+        };
+      }
+
+      // Text is compared case-insensitively, a missing value is empty text
+      const column = `LOWER(COALESCE(${TEXT_FIELDS[field]}, ''))`;
+      if (operator === ':') {
+        return { sql: `instr(${column}, LOWER(?)) > 0`, params: [value] };
+      }
+      return { sql: `${column} ${operator} LOWER(?)`, params: [value] };
+    }
+  }
+}
+
+/**
+ * Parses and compiles a structured query to a SQL condition on the matched node `n`
+ * @param query - The query
+ * @returns The SQL condition and its parameters
+ * @throws QuerySyntaxError if the query is invalid
+ */
+export function compileQuery(query: string): CompiledQuery {
+  return compile(parse(query));
+}
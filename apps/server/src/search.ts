@@ -0,0 +1,252 @@
+import { PATH_SEPARATOR } from './importers';
+
+// Relevance weights of the indexed columns (name, synonyms, gloss) for BM25
+const COLUMN_WEIGHTS = [10.0, 5.0, 1.0];
+
+/**
+ * SQL expression of the relevance score of a match, lower is better
+ */
+export const SEARCH_SCORE_SQL = `bm25(nodes_fts, ${COLUMN_WEIGHTS.join(', ')})`;
+
+// Modes of the search endpoint, `exact` matches words as typed, `fuzzy` tolerates typos,
+// `query` is a structured query (see query.ts), `pattern` a path pattern (see pattern.ts)
+export const SEARCH_MODES = ['exact', 'fuzzy', 'query', 'pattern'] as const;
+
+export type SearchMode = (typeof SEARCH_MODES)[number];
+
+export interface SearchTerm {
+  text: string;
+  // quoted phrases match as a whole, words as prefixes
+  isPhrase: boolean;
+  // normalized terms a word also matches, in the fuzzy mode
+  similar?: string[];
+}
+
+/**
+ * Normalizes a word the same way the FTS5 tokenizer does (lowercase, no diacritics)
+ * @param word - The word
+ * @returns The normalized word
+ */
+export function normalizeTerm(word: string): string {
+  return word.normalize('NFD').replace(/\p{M}/gu, '').toLowerCase();
+}
+
+/**
+ * Splits text into normalized words, like the FTS5 tokenizer
+ */
+export function splitWords(text: string): string[] {
+  return normalizeTerm(text)
+    .split(/[^\p{L}\p{N}]+/u)
+    .filter((word) => word !== '');
+}
+
+/**
+ * Checks whether a term occurs in the words of a synonym
+ * Phrases match a run of whole words, words the same run with the last word as a prefix
+ * (or, in the fuzzy mode, a similar term as a whole word).
+ */
+function termMatchesWords(term: SearchTerm, words: string[]): boolean {
+  const termWords = splitWords(term.text);
+  const isAt = (start: number) =>
+    termWords.every((termWord, i) => {
+      const word = words[start + i];
+      return !term.isPhrase && i === termWords.length - 1
+        ? word?.startsWith(termWord)
+        : word === termWord;
+    });
+
+  return (
+    words.some((_, start) => isAt(start)) ||
+    (term.similar ?? []).some((similar) => words.includes(similar))
+  );
+}
+
+/**
+ * Finds the synonym of a matched node that a word search matched
+ * @param synonyms - The synonyms of the node, primary label first
+ * @param terms - The terms of the search
+ * @returns The synonym matching the most terms (the first one on a tie),
+ * or null if no synonym matches any term (e.g. the match is in the gloss)
+ */
+export function findMatchedSynonym(
+  synonyms: string[],
+  terms: SearchTerm[]
+): string | null {
+  let matched: string | null = null;
+  let matchedTerms = 0;
+
+  for (const synonym of synonyms) {
+    const words = splitWords(synonym);
+    const count = terms.filter((term) => termMatchesWords(term, words)).length;
+    if (count > matchedTerms) {
+      matched = synonym;
+      matchedTerms = count;
+    }
+  }
+
+  return matched;
+}
+
+/**
+ * Splits a user query into words and double-quoted phrases
+ * @param query - The user query, e.g. `tabby "domestic cat"`
+ * @returns The terms
+ */
+export function tokenizeSearchQuery(query: string): SearchTerm[] {
+  const terms: SearchTerm[] = [];
+  // A quoted phrase (the closing quote is optional while typing) or a run of non-space characters
+  const pattern = /"([^"]*)"?|(\S+)/g;
+
+  for (const [, phrase, word] of query.matchAll(pattern)) {
+    const text = (phrase ?? word).trim();
+    // Must contain something the tokenizer keeps, otherwise FTS5 matches nothing
+    if (/[\p{L}\p{N}]/u.test(text)) {
+      terms.push({ text, isPhrase: phrase !== undefined });
+    }
+  }
+
+  return terms;
+}
+
+/**
+ * Builds an FTS5 MATCH expression from a user query
+ * Every term has to match (in any order), words match as prefixes, quoted phrases as a whole.
+ * Terms are always quoted, so FTS5 operators and punctuation in the query can't cause syntax errors.
+ * @param query - The user query
+ * @returns The MATCH expression, or null if the query has no terms
+ */
+export function buildFtsQuery(query: string): string | null {
+  const terms = tokenizeSearchQuery(query);
+  if (terms.length === 0) {
+    return null;
+  }
+
+  return terms
+    .map(({ text, isPhrase }) => {
+      const quoted = `"${text.replace(/"/g, '""')}"`;
+      return isPhrase ? quoted : `${quoted}*`;
+    })
+    .join(' ');
+}
+
+// Numeric filters of the search endpoint, by query parameter
+const RANGE_FILTERS = {
+  minDepth: 'n.depth >= ?',
+  maxDepth: 'n.depth <= ?',
+  minSize: 'n.size >= ?',
+  maxSize: 'n.size <= ?',
+} as const;
+
+type RangeFilter = keyof typeof RANGE_FILTERS;
+
+/**
+ * Filters narrowing down the matches of a search
+ */
+export interface SearchFilters {
+  // hash of the node whose descendants are searched
+  under?: string;
+  minDepth?: number;
+  maxDepth?: number;
+  minSize?: number;
+  maxSize?: number;
+  leafOnly: boolean;
+}
+
+/**
+ * Parses the filter query parameters of the search endpoint
+ * @param query - The request query parameters
+ * @returns The filters, or the error message of an invalid parameter
+ */
+export function parseSearchFilters(
+  query: Record<string, unknown>
+): { filters: SearchFilters } | { error: string } {
+  const filters: SearchFilters = { leafOnly: false };
+
+  if (query.under !== undefined) {
+    if (typeof query.under !== 'string' || query.under === '') {
+      return { error: 'Invalid under, expected a node hash' };
+    }
+    filters.under = query.under;
+  }
+
+  for (const name of Object.keys(RANGE_FILTERS) as RangeFilter[]) {
+    const value = query[name];
+    if (value === undefined) {
+      continue;
+    }
+    if (typeof value !== 'string' || !/^\d+$/.test(value)) {
+      return { error: `Invalid ${name}, expected a non-negative integer` };
+    }
+    filters[name] = Number(value);
+  }
+
+  if (query.leafOnly !== undefined) {
+    if (query.leafOnly !== 'true' && query.leafOnly !== 'false') {
+      return { error: 'Invalid leafOnly, expected true or false' };
+    }
+    filters.leafOnly = query.leafOnly === 'true';
+  }
+
+  return { filters };
+}
+
+/**
+ * Builds the SQL conditions of search filters on the matched node `n`
+ * @param filters - The filters
+ * @param underPath - Path of the `under` node, its descendants are the paths starting with it
+ * @returns The conditions (`1` if there are none) and their parameters
+ */
+export function buildSearchFilterSql(
+  filters: SearchFilters,
+  underPath: string | null
+): { where: string; params: (string | number)[] } {
+  const conditions: string[] = [];
+  const params: (string | number)[] = [];
+
+  if (underPath !== null) {
+    const prefix = `${underPath}${PATH_SEPARATOR}`;
+    conditions.push('substr(n.path, 1, ?) = ?');
+    params.push(prefix.length, prefix);
+  }
+
+  for (const name of Object.keys(RANGE_FILTERS) as RangeFilter[]) {
+    const value = filters[name];
+    if (value !== undefined) {
+      conditions.push(RANGE_FILTERS[name]);
+      params.push(value);
+    }
+  }
+
+  if (filters.leafOnly) {
+    conditions.push('n.childCount = 0');
+  }
+
+  return {
+    where: conditions.length > 0 ? conditions.join(' AND ') : '1',
+    params,
+  };
+}
+
+/**
+ * Converts search filters back to query parameters, for the next page URL
+ * @param filters - The filters
+ * @returns The query parameters of the set filters
+ */
+export function searchFiltersToParams(
+  filters: SearchFilters
+): Record<string, string> {
+  const params: Record<string, string> = {};
+  if (filters.under !== undefined) {
+    params.under = filters.under;
+  }
+  for (const name of Object.keys(RANGE_FILTERS) as RangeFilter[]) {
+    const value = filters[name];
+    if (value !== undefined) {
+      params[name] = String(value);
+    }
+  }
+  if (filters.leafOnly) {
+    params.leafOnly = 'true';
+  }
+  return params;
+}
@@ -1,28 +1,270 @@
 import express from 'express';
 import cors from 'cors';
-import { ParsedEntry } from './parse';
-import { createDatabase } from './db';
+import { PATH_SEPARATOR, type ParsedEntry } from './importers';
+import { initializeDatabase } from './db';
 import {
-  decodeCursor,
+  decodeSearchCursor,
+  decodeSortCursor,
   buildPaginationResponse,
-  type CursorData,
+  getChildrenSortOrder,
+  parseChildrenSort,
+  toSortCursorData,
+  CHILDREN_SORTS,
+  type PaginationResponse,
+  type SearchCursorData,
+  type SortCursorData,
 } from './pagination';
+import {
+  buildFtsQuery,
+  buildSearchFilterSql,
+  findMatchedSynonym,
+  parseSearchFilters,
+  searchFiltersToParams,
+  tokenizeSearchQuery,
+  SEARCH_MODES,
+  SEARCH_SCORE_SQL,
+  type SearchTerm,
+} from './search';
+import { buildFuzzyFtsQuery, expandSearchTerms, suggestQueries } from './fuzzy';
+import { compileQuery, QuerySyntaxError, type CompiledQuery } from './query';
+import {
+  compilePathPattern,
+  findPatternSynonym,
+  PathPatternError,
+  PATH_MATCHES_FUNCTION,
+  registerPathPatternFunction,
+} from './pattern';
+import {
+  createChildEntry,
+  deleteEntry,
+  EntryEditError,
+  moveEntry,
+  parseMoveInput,
+  parseNewEntryInput,
+  parseRenameInput,
+  renameEntry,
+} from './edit';
 import morgan from 'morgan';
 
 const host = process.env.HOST ?? 'localhost';
 const port = process.env.PORT ? Number(process.env.PORT) : 3000;
 
-const db = createDatabase();
+// Databases imported by an older version get their missing columns and tables on startup
+const db = initializeDatabase();
+registerPathPatternFunction(db);
 const app = express();
 
 type EntryNody = ParsedEntry & {
+  // primary synonym of the name
+  label: string;
+  // the other synonyms
+  synonyms: string[];
   childrenUrl: string | null;
 };
 
+// Attributes and synonyms (primary label first) are stored as JSON strings
+type EntryRow = Omit<ParsedEntry, 'attributes'> & {
+  attributes: string | null;
+  synonyms: string | null;
+};
+
+// Subtree requests are bounded, so a single request can't load the whole tree
+const DEFAULT_SUBTREE_DEPTH = 2;
+const MAX_SUBTREE_DEPTH = 5;
+const MAX_SUBTREE_NODES = 2000;
+
+// Number of names the autocomplete suggests
+const DEFAULT_SUGGEST_LIMIT = 10;
+const MAX_SUGGEST_LIMIT = 50;
+
+// Number of ancestors in the facets of a search
+const SEARCH_FACET_LIMIT = 50;
+
+// Number of largest children in the entry details
+const LARGEST_CHILDREN_LIMIT = 5;
+
+// Synonyms of the node as a JSON array, primary label first
+const SYNONYMS_COLUMN =
+  '(SELECT json_group_array(label ORDER BY position) FROM synonyms WHERE nodeHash = hash) AS synonyms';
+
+const ENTRY_COLUMNS = `hash, name, size, childCount, descendantCount, leafCount, depth, ordinal, parentHash, wnid, gloss, attributes, ${SYNONYMS_COLUMN}`;
+
+/**
+ * Converts a database row into an API entry
+ * @param row - The database row
+ * @returns The entry with parsed attributes, its primary label and other synonyms, and children URL
+ */
+function toEntry<T extends EntryRow>(
+  row: T
+): Omit<T, 'attributes' | 'synonyms'> &
+  Pick<EntryNody, 'attributes' | 'label' | 'synonyms' | 'childrenUrl'> {
+  const [label = row.name, ...synonyms]: string[] = row.synonyms
+    ? JSON.parse(row.synonyms)
+    : [];
+
+  return {
+    ...row,
+    attributes: row.attributes ? JSON.parse(row.attributes) : {},
+    label,
+    synonyms,
+    childrenUrl: row.size > 0 ? `/entries/${row.hash}/children` : null,
+  };
+}
+
+/**
+ * Loads an entry with its path
+ * @param hash - The node hash
+ * @returns The entry, or undefined if the node doesn't exist
+ */
+function selectEntry(hash: string) {
+  const row = db
+    .prepare(`SELECT ${ENTRY_COLUMNS}, path FROM nodes WHERE hash = ?`)
+    .get(hash) as (EntryRow & { path: string }) | undefined;
+  return row ? toEntry(row) : undefined;
+}
+
+/**
+ * Resolves the old hash of a renamed or moved node to its current one
+ * @param hash - The requested hash
+ * @returns The hash of the node it points at, or the hash itself if it isn't an alias
+ */
+function resolveHash(hash: string): string {
+  const alias = db
+    .prepare(
+      'SELECT targetHash FROM entry_aliases WHERE hash = ? AND NOT EXISTS (SELECT 1 FROM nodes WHERE hash = ?)'
+    )
+    .pluck()
+    .get(hash, hash) as string | undefined;
+  return alias ?? hash;
+}
+
+/**
+ * Sends the error of a rejected write as `{ error, details? }`, other errors are rethrown
+ * @param res - The response
+ * @param error - The caught error
+ */
+function sendEditError(res: express.Response, error: unknown): void {
+  if (!(error instanceof EntryEditError)) {
+    throw error;
+  }
+  res.status(error.status).json({
+    error: error.message,
+    ...(error.details ? { details: error.details } : {}),
+  });
+}
+
+/**
+ * Loads the synonyms of nodes
+ * @param hashes - The node hashes
+ * @returns Map of node hash to its synonyms, primary label first
+ */
+function selectSynonyms(hashes: string[]): Map<string, string[]> {
+  const rows = db
+    .prepare(
+      `
+        SELECT nodeHash, label FROM synonyms
+        WHERE nodeHash IN (SELECT value FROM json_each(?))
+        ORDER BY nodeHash, position
+      `
+    )
+    .all(JSON.stringify(hashes)) as { nodeHash: string; label: string }[];
+
+  const synonymsByHash = new Map<string, string[]>();
+  for (const { nodeHash, label } of rows) {
+    const synonyms = synonymsByHash.get(nodeHash) ?? [];
+    synonyms.push(label);
+    synonymsByHash.set(nodeHash, synonyms);
+  }
+  return synonymsByHash;
+}
+
+/**
+ * Adds the ancestors of search matches, so the client can reconstruct the tree
+ * Entries come parents first, following the order of the matches:
+ * the chain of the first match, then the not yet included part of the second chain, ...
+ * @param matches - The matches in their result order
+ * @returns The matches and their ancestors, `distance` is 0 for matches and the number of levels above the match otherwise
+ */
+function withAncestors<T extends { hash: string }>(matches: T[]) {
+  if (matches.length === 0) {
+    return [];
+  }
+
+  const rows = db
+    .prepare(
+      `
+        WITH RECURSIVE chains AS (
+          SELECT hash, parentHash, 0 as distance, hash as matchHash
+          FROM nodes
+          WHERE hash IN (SELECT value FROM json_each(?))
+
+          UNION ALL
+
+          SELECT n.hash, n.parentHash, c.distance + 1, c.matchHash
+          FROM nodes n
+          INNER JOIN chains c ON n.hash = c.parentHash
+        )
+        SELECT ${ENTRY_COLUMNS}, path, distance, matchHash
+        FROM (
+          SELECT n.*, c.distance, c.matchHash
+          FROM chains c
+          INNER JOIN nodes n ON n.hash = c.hash
+        )
+        ORDER BY distance DESC
+      `
+    )
+    .all(JSON.stringify(matches.map((match) => match.hash))) as (EntryRow & {
+    path: string;
+    distance: number;
+    matchHash: string;
+  })[];
+
+  const chainsByMatch = new Map<string, typeof rows>();
+  for (const row of rows) {
+    const chain = chainsByMatch.get(row.matchHash) ?? [];
+    chain.push(row);
+    chainsByMatch.set(row.matchHash, chain);
+  }
+
+  const matchesByHash = new Map(matches.map((match) => [match.hash, match]));
+  const included = new Set<string>();
+  const entries = [];
+
+  for (const match of matches) {
+    // Root first, the match last
+    // eslint-disable-next-line @typescript-eslint/no-unused-vars
+    for (const { matchHash, distance, ...row } of chainsByMatch.get(
+      match.hash
+    ) ?? []) {
+      if (included.has(row.hash)) {
+        continue;
+      }
+      included.add(row.hash);
+
+      // A match can also be an ancestor of a better match
+      const ownMatch = matchesByHash.get(row.hash);
+      entries.push({
+        ...toEntry(row),
+        ...(ownMatch ?? {}),
+        distance: ownMatch ? 0 : distance,
+      });
+    }
+  }
+
+  return entries;
+}
+
 app.use(cors());
+app.use(express.json());
 
 app.use(morgan('dev'));
 
+// Links to old hashes of renamed and moved nodes keep working
+app.param('hash', (req, res, next, hash: string) => {
+  req.params.hash = resolveHash(hash);
+  next();
+});
+
 app.get('/', (req, res) => {
   res.send({ message: 'Hello API' });
 });
@@ -30,10 +272,8 @@ app.get('/', (req, res) => {
 app.get('/entries', (req, res): void => {
   // Get the root entry (parentHash is NULL)
   const parent = db
-    .prepare(
-      'SELECT hash, name, size, parentHash FROM nodes WHERE parentHash IS NULL'
-    )
-    .get() as ParsedEntry | undefined;
+    .prepare(`SELECT ${ENTRY_COLUMNS} FROM nodes WHERE parentHash IS NULL`)
+    .get() as EntryRow | undefined;
 
   if (!parent) {
     res.status(404).json({ error: 'Root entry not found' });
@@ -41,7 +281,7 @@ app.get('/entries', (req, res): void => {
   }
 
   const data: EntryNody = {
-    ...parent,
+    ...toEntry(parent),
     childrenUrl: `/entries/${parent.hash}/children`,
   };
 
@@ -53,52 +293,53 @@ app.get('/entries/:hash/children', ({ params, query }, res) => {
   const limit = parseInt(query.limit as string) || 10;
   const cursor = query.cursor as string | undefined;
 
-  // Decode cursor if provided (base64-encoded JSON with composite key {name, hash})
-  const decodedCursor = decodeCursor(cursor);
+  const sort = parseChildrenSort(query.sort);
+  if (!sort) {
+    res.status(400).json({
+      error: `Invalid sort, expected one of: ${CHILDREN_SORTS.join(', ')}`,
+    });
+    return;
+  }
+
+  // Decode cursor if provided (base64-encoded JSON with the sort key and hash of the last item)
+  const decodedCursor = decodeSortCursor(cursor, sort);
   if (cursor && !decodedCursor) {
     res.status(400).json({ error: 'Invalid cursor format' });
     return;
   }
 
   const hasCursor = decodedCursor !== null;
+  const { orderBy, after } = getChildrenSortOrder(sort);
 
   const children = db
     .prepare(
       `
-        SELECT hash, name, size, parentHash
+        SELECT ${ENTRY_COLUMNS}
         FROM nodes 
         WHERE parentHash = ?
-        ${
-          hasCursor
-            ? `AND (LOWER(name) > ? OR (LOWER(name) = ? AND hash > ?))`
-            : ''
-        }
-        ORDER BY LOWER(name) ASC, hash ASC
+        ${hasCursor ? `AND ${after}` : ''}
+        ORDER BY ${orderBy}
         LIMIT ?
       `
     )
     .all(
       hash,
       ...(hasCursor && decodedCursor
-        ? [decodedCursor.name, decodedCursor.name, decodedCursor.hash]
+        ? [decodedCursor.key, decodedCursor.key, decodedCursor.hash]
         : []),
       limit + 1 // +1 to check if there's more (we could do EXISTS check instead but .. naah, this is a linear set)
-    ) as ParsedEntry[];
+    ) as EntryRow[];
 
   // Check if there are more items
   const hasMore = children.length > limit;
-  let lastItem: CursorData | null = null;
+  let lastItem: SortCursorData | null = null;
   if (hasMore) {
-    const poppedItem = children.pop();
-    if (poppedItem) {
-      lastItem = { name: poppedItem.name, hash: poppedItem.hash };
-    }
+    children.pop();
+    // The cursor points at the last returned item
+    lastItem = toSortCursorData(sort, children[children.length - 1]);
   }
 
-  const result = children.map((child: ParsedEntry) => ({
-    ...child,
-    childrenUrl: child.size > 0 ? `/entries/${child.hash}/children` : null,
-  }));
+  const result = children.map((child) => toEntry(child));
 
   res.json({
     data: result,
@@ -107,15 +348,359 @@ app.get('/entries/:hash/children', ({ params, query }, res) => {
       hasMore,
       lastItem,
       buildNextUrl: (nextCursor) =>
-        `/entries/${hash}/children?limit=${limit}&cursor=${nextCursor}`,
+        `/entries/${hash}/children?limit=${limit}&sort=${encodeURIComponent(
+          sort
+        )}&cursor=${nextCursor}`,
     }),
   });
 });
 
+app.get('/entries/:hash/subtree', ({ params, query }, res): void => {
+  const { hash } = params;
+  const depth = Math.min(
+    Math.max(parseInt(query.depth as string) || DEFAULT_SUBTREE_DEPTH, 1),
+    MAX_SUBTREE_DEPTH
+  );
+  const limitPerNode = Math.min(
+    Math.max(parseInt(query.limitPerNode as string) || 10, 1),
+    MAX_SUBTREE_NODES
+  );
+
+  const sort = parseChildrenSort(query.sort);
+  if (!sort) {
+    res.status(400).json({
+      error: `Invalid sort, expected one of: ${CHILDREN_SORTS.join(', ')}`,
+    });
+    return;
+  }
+
+  const node = db
+    .prepare('SELECT hash, size FROM nodes WHERE hash = ?')
+    .get(hash) as Pick<EntryRow, 'hash' | 'size'> | undefined;
+  if (!node) {
+    res.status(404).json({ error: 'Entry not found' });
+    return;
+  }
+
+  const { orderBy } = getChildrenSortOrder(sort);
+
+  // First limitPerNode + 1 children of every parent in a level (+1 to check if there's more)
+  const selectChildPages = db.prepare(
+    `
+      SELECT * FROM (
+        SELECT
+          ${ENTRY_COLUMNS},
+          ROW_NUMBER() OVER (PARTITION BY parentHash ORDER BY ${orderBy}) as rowNum
+        FROM nodes
+        WHERE parentHash IN (SELECT value FROM json_each(?))
+      )
+      WHERE rowNum <= ?
+      ORDER BY parentHash, rowNum
+    `
+  );
+
+  const entries: EntryRow[] = [];
+  const pagination: Record<string, PaginationResponse> = {};
+
+  // Load the tree level by level, only parents whose children were loaded get a pagination entry
+  let parents = node.size > 0 ? [hash] : [];
+  for (let level = 0; level < depth && parents.length > 0; level++) {
+    // Stay within the node budget, the remaining parents are loaded on expand
+    const budget = Math.floor(
+      (MAX_SUBTREE_NODES - entries.length) / limitPerNode
+    );
+    parents = parents.slice(0, budget);
+
+    const rows = selectChildPages.all(
+      JSON.stringify(parents),
+      limitPerNode + 1
+    ) as (EntryRow & { rowNum: number })[];
+
+    const childrenByParent = new Map<string, EntryRow[]>();
+    // eslint-disable-next-line @typescript-eslint/no-unused-vars
+    for (const { rowNum, ...row } of rows) {
+      const children = childrenByParent.get(row.parentHash as string) ?? [];
+      children.push(row);
+      childrenByParent.set(row.parentHash as string, children);
+    }
+
+    const nextParents: string[] = [];
+    for (const parentHash of parents) {
+      const children = childrenByParent.get(parentHash) ?? [];
+
+      const hasMore = children.length > limitPerNode;
+      let lastItem: SortCursorData | null = null;
+      if (hasMore) {
+        children.pop();
+        lastItem = toSortCursorData(sort, children[children.length - 1]);
+      }
+
+      pagination[parentHash] = buildPaginationResponse({
+        limit: limitPerNode,
+        hasMore,
+        lastItem,
+        buildNextUrl: (nextCursor) =>
+          `/entries/${parentHash}/children?limit=${limitPerNode}&sort=${encodeURIComponent(
+            sort
+          )}&cursor=${nextCursor}`,
+      });
+
+      for (const child of children) {
+        entries.push(child);
+        if (child.size > 0) {
+          nextParents.push(child.hash);
+        }
+      }
+    }
+
+    parents = nextParents;
+  }
+
+  res.json({
+    // Flat list of the loaded descendants, parents before their children
+    data: entries.map((entry) => toEntry(entry)),
+    // Pagination of every node whose children were loaded, keyed by its hash
+    pagination,
+  });
+});
+
+app.get('/entries/:hash/ancestors', ({ params, query }, res): void => {
+  const { hash } = params;
+
+  const sort = parseChildrenSort(query.sort);
+  if (!sort) {
+    res.status(400).json({
+      error: `Invalid sort, expected one of: ${CHILDREN_SORTS.join(', ')}`,
+    });
+    return;
+  }
+
+  const { orderBy } = getChildrenSortOrder(sort);
+
+  // Walk up from the node to the root, then number the siblings of every node on the chain
+  const chain = db
+    .prepare(
+      `
+        WITH RECURSIVE chain AS (
+          SELECT hash, parentHash, 0 as distance FROM nodes WHERE hash = ?
+
+          UNION ALL
+
+          SELECT n.hash, n.parentHash, c.distance + 1
+          FROM nodes n
+          INNER JOIN chain c ON n.hash = c.parentHash
+        ),
+        positions AS (
+          SELECT
+            hash,
+            ROW_NUMBER() OVER (PARTITION BY parentHash ORDER BY ${orderBy}) - 1 as siblingIndex,
+            COUNT(*) OVER (PARTITION BY parentHash) as siblingCount
+          FROM nodes
+          WHERE parentHash IN (SELECT parentHash FROM chain)
+        )
+        SELECT ${ENTRY_COLUMNS}, siblingIndex, siblingCount
+        FROM (
+          SELECT
+            n.*,
+            c.distance,
+            -- the root has no siblings
+            COALESCE(p.siblingIndex, 0) as siblingIndex,
+            COALESCE(p.siblingCount, 1) as siblingCount
+          FROM chain c
+          INNER JOIN nodes n ON n.hash = c.hash
+          LEFT JOIN positions p ON p.hash = c.hash
+        )
+        ORDER BY distance DESC
+      `
+    )
+    .all(hash) as (EntryRow & { siblingIndex: number; siblingCount: number })[];
+
+  if (chain.length === 0) {
+    res.status(404).json({ error: 'Entry not found' });
+    return;
+  }
+
+  // Ordered from the root down to the node itself
+  res.json({ data: chain.map((entry) => toEntry(entry)) });
+});
+
+app.get('/entries/by-path', ({ query }, res): void => {
+  const { path } = query;
+
+  if (!path || typeof path !== 'string' || path.trim() === '') {
+    res.status(400).json({ error: 'Missing path' });
+    return;
+  }
+
+  // Tolerate any spacing around the separators and a trailing separator
+  const segments = path
+    .split(PATH_SEPARATOR.trim())
+    .map((segment) => segment.trim())
+    .filter((segment) => segment !== '');
+
+  // Paths are matched case-insensitively, the same path can exist more than once
+  const selectByPath = db.prepare(
+    `SELECT ${ENTRY_COLUMNS}, path FROM nodes WHERE LOWER(path) = LOWER(?) ORDER BY hash ASC`
+  );
+
+  const matches = selectByPath.all(segments.join(PATH_SEPARATOR)) as EntryRow[];
+
+  if (matches.length > 0) {
+    res.json({ data: matches.map((match) => toEntry(match)) });
+    return;
+  }
+
+  // Find the longest prefix that still resolves, so the client can show where the path breaks
+  for (let length = segments.length - 1; length > 0; length--) {
+    const prefix = segments.slice(0, length).join(PATH_SEPARATOR);
+    const prefixMatches = selectByPath.all(prefix) as EntryRow[];
+
+    if (prefixMatches.length > 0) {
+      res.status(404).json({
+        error: 'Path not found',
+        longestPrefix: {
+          path: prefix,
+          data: prefixMatches.map((match) => toEntry(match)),
+        },
+      });
+      return;
+    }
+  }
+
+  res.status(404).json({ error: 'Path not found', longestPrefix: null });
+});
+
+app.get('/entries/lca', ({ query }, res): void => {
+  const { a, b } = query;
+
+  if (!a || typeof a !== 'string' || !b || typeof b !== 'string') {
+    res.status(400).json({ error: 'Missing a or b' });
+    return;
+  }
+  const hashA = resolveHash(a);
+  const hashB = resolveHash(b);
+
+  // Walk up from both nodes to the root
+  const rows = db
+    .prepare(
+      `
+        WITH RECURSIVE chains AS (
+          SELECT hash, parentHash, 0 as distance, hash as nodeHash
+          FROM nodes
+          WHERE hash IN (?, ?)
+
+          UNION ALL
+
+          SELECT n.hash, n.parentHash, c.distance + 1, c.nodeHash
+          FROM nodes n
+          INNER JOIN chains c ON n.hash = c.parentHash
+        )
+        SELECT ${ENTRY_COLUMNS}, path, nodeHash
+        FROM (
+          SELECT n.*, c.distance, c.nodeHash
+          FROM chains c
+          INNER JOIN nodes n ON n.hash = c.hash
+        )
+        ORDER BY distance DESC
+      `
+    )
+    .all(hashA, hashB) as (EntryRow & { path: string; nodeHash: string })[];
+
+  // Ordered from the root down to the node itself
+  const chainOf = (hash: string) =>
+    rows
+      .filter((row) => row.nodeHash === hash)
+      // eslint-disable-next-line @typescript-eslint/no-unused-vars
+      .map(({ nodeHash, ...row }) => toEntry(row));
+  const chainA = chainOf(hashA);
+  const chainB = chainOf(hashB);
+
+  if (chainA.length === 0 || chainB.length === 0) {
+    res.status(404).json({ error: 'Entry not found' });
+    return;
+  }
+
+  // Both chains start at the root, the last node they share is the lowest common ancestor
+  let ancestorIndex = -1;
+  while (
+    ancestorIndex + 1 < Math.min(chainA.length, chainB.length) &&
+    chainA[ancestorIndex + 1].hash === chainB[ancestorIndex + 1].hash
+  ) {
+    ancestorIndex++;
+  }
+
+  if (ancestorIndex === -1) {
+    res.status(404).json({ error: 'Entries have no common ancestor' });
+    return;
+  }
+
+  res.json({
+    data: {
+      ancestor: chainA[ancestorIndex],
+      chainA,
+      chainB,
+      // number of edges on the path from a up to the ancestor and down to b
+      distance:
+        chainA.length - 1 - ancestorIndex + (chainB.length - 1 - ancestorIndex),
+    },
+  });
+});
+
+app.get('/entries/suggest', ({ query }, res): void => {
+  const { q } = query;
+  // A negative LIMIT is no limit in SQLite
+  const limit = Math.min(
+    Math.max(parseInt(query.limit as string) || DEFAULT_SUGGEST_LIMIT, 1),
+    MAX_SUGGEST_LIMIT
+  );
+
+  if (!q || typeof q !== 'string' || q.trim() === '') {
+    res.json({ data: [] });
+    return;
+  }
+
+  // SQLite's LOWER only folds ASCII letters, the prefix has to be folded the same way
+  const prefix = q
+    .trimStart()
+    .replace(/[A-Z]/g, (letter) => letter.toLowerCase());
+
+  // Any synonym can start with the prefix, its range uses idx_synonyms_label_lower.
+  // Nodes sharing the synonym are one suggestion pointing at the shallowest of them,
+  // the hit count is the number of those nodes
+  const suggestions = db
+    .prepare(
+      `
+      SELECT hash, name, synonym, path, hitCount FROM (
+        SELECT
+          n.hash, n.name, s.label AS synonym, n.path,
+          COUNT(*) OVER (PARTITION BY LOWER(s.label)) AS hitCount,
+          ROW_NUMBER() OVER (PARTITION BY LOWER(s.label) ORDER BY n.depth ASC, n.hash ASC) AS occurrence
+        FROM synonyms s
+        INNER JOIN nodes n ON n.hash = s.nodeHash
+        WHERE LOWER(s.label) >= ? AND LOWER(s.label) < ?
+      )
+      WHERE occurrence = 1
+      ORDER BY hitCount DESC, LOWER(synonym) ASC, hash ASC
+      LIMIT ?
+      `
+    )
+    .all(prefix, `${prefix}\u{10FFFF}`, limit);
+
+  res.json({ data: suggestions });
+});
+
 app.get('/entries/search', ({ query }, res) => {
   const { q } = query;
   const limit = parseInt(query.limit as string) || 10;
   const cursor = query.cursor as string | undefined;
+  const mode = SEARCH_MODES.find((m) => m === (query.mode ?? 'exact'));
+
+  if (!mode) {
+    res.status(400).json({
+      error: `Invalid mode, expected one of: ${SEARCH_MODES.join(', ')}`,
+    });
+    return;
+  }
 
   // Return empty array if no search query provided
   if (!q || typeof q !== 'string' || q.trim() === '') {
@@ -123,152 +708,257 @@ app.get('/entries/search', ({ query }, res) => {
     return;
   }
 
-  // Decode cursor if provided (base64-encoded JSON with composite key {name, hash})
-  const decodedCursor = decodeCursor(cursor);
+  const parsedFilters = parseSearchFilters(query);
+  if ('error' in parsedFilters) {
+    res.status(400).json({ error: parsedFilters.error });
+    return;
+  }
+  const { filters } = parsedFilters;
+
+  // Optional total count and facet counts by the ancestor at a depth
+  if (
+    query.count !== undefined &&
+    !['true', 'false'].includes(query.count as string)
+  ) {
+    res.status(400).json({ error: 'Invalid count, expected true or false' });
+    return;
+  }
+  const withCount = query.count === 'true';
+  if (
+    query.facetDepth !== undefined &&
+    !/^\d+$/.test(query.facetDepth as string)
+  ) {
+    res.status(400).json({
+      error: 'Invalid facetDepth, expected a non-negative integer',
+    });
+    return;
+  }
+  const facetDepth =
+    query.facetDepth !== undefined ? Number(query.facetDepth) : null;
+
+  // Decode cursor if provided (base64-encoded JSON with composite key {score, hash})
+  const decodedCursor = decodeSearchCursor(cursor);
   if (cursor && !decodedCursor) {
     res.status(400).json({ error: 'Invalid cursor format' });
     return;
   }
 
-  const hasCursor = decodedCursor !== null;
+  // Matches are limited to the descendants of the `under` node
+  let underPath: string | null = null;
+  if (filters.under !== undefined) {
+    const scope = db
+      .prepare('SELECT path FROM nodes WHERE hash = ?')
+      .get(resolveHash(filters.under)) as { path: string } | undefined;
+    if (!scope) {
+      res.status(404).json({ error: 'Entry not found' });
+      return;
+    }
+    underPath = scope.path;
+  }
+  const filterSql = buildSearchFilterSql(filters, underPath);
 
-  // search anywhere in the name (case-insensitive)
-  const searchTerm = `%${q.trim().toLowerCase()}%`;
+  // Structured queries are compiled up front, so syntax errors are reported as bad requests
+  let compiledQuery: CompiledQuery | null = null;
+  if (mode === 'query') {
+    try {
+      compiledQuery = compileQuery(q);
+    } catch (error) {
+      if (error instanceof QuerySyntaxError) {
+        res
+          .status(400)
+          .json({ error: error.message, position: error.position });
+        return;
+      }
+      throw error;
+    }
+  }
+  if (mode === 'pattern') {
+    try {
+      compilePathPattern(q);
+    } catch (error) {
+      if (error instanceof PathPatternError) {
+        res.status(400).json({ error: error.message });
+        return;
+      }
+      throw error;
+    }
+  }
+
+  const hasCursor = decodedCursor !== null;
 
   try {
-    // paginate search matches and get all ancestor paths
+    // Terms of a word search, to find the synonym every match was found by
+    let terms: SearchTerm[] = [];
+    // Matches with their score, lower is better
+    let source: { sql: string; params: (string | number)[] };
+    if (compiledQuery) {
+      // Structured queries have no relevance, the shallowest matches come first
+      source = {
+        sql: `
+          SELECT n.hash, n.depth AS score
+          FROM nodes n
+          WHERE ${compiledQuery.sql} AND ${filterSql.where}
+        `,
+        params: [...compiledQuery.params, ...filterSql.params],
+      };
+    } else if (mode === 'pattern') {
+      // Path patterns neither, the shallowest matches come first
+      source = {
+        sql: `
+          SELECT n.hash, n.depth AS score
+          FROM nodes n
+          WHERE ${PATH_MATCHES_FUNCTION}(?, n.path) AND ${filterSql.where}
+        `,
+        params: [q, ...filterSql.params],
+      };
+    } else {
+      // Words match as prefixes in any order, quoted phrases as a whole
+      // (in the fuzzy mode, words also match similarly spelled terms)
+      terms =
+        mode === 'fuzzy' ? expandSearchTerms(db, q) : tokenizeSearchQuery(q);
+      const ftsQuery =
+        mode === 'fuzzy' ? buildFuzzyFtsQuery(terms) : buildFtsQuery(q);
+      if (!ftsQuery) {
+        res.json({ data: [], pagination: { limit, hasMore: false } });
+        return;
+      }
+
+      // Most relevant matches first (BM25)
+      source = {
+        sql: `
+          SELECT n.hash, ${SEARCH_SCORE_SQL} AS score
+          FROM nodes_fts
+          INNER JOIN nodes n ON n.rowid = nodes_fts.rowid
+          WHERE nodes_fts MATCH ? AND ${filterSql.where}
+        `,
+        params: [ftsQuery, ...filterSql.params],
+      };
+    }
+
+    // Best matches first, hash breaks ties
     // Uses limit+1 to check if there are more matches
-    // Use indexed name column for fast searches (much faster than REGEXP)
-    const queryResult = db
+    const matches = db
       .prepare(
         `
-        WITH search_matches AS (
-          SELECT
-            n.*,
-            0 as depth,
-            ROW_NUMBER() OVER (ORDER BY LOWER(n.name) ASC, n.hash ASC) as row_num
-          FROM nodes n
-          WHERE LOWER(n.name) LIKE ?
-          ${
-            hasCursor
-              ? `AND (LOWER(n.name) > ? OR (LOWER(n.name) = ? AND n.hash > ?))`
-              : ''
-          }
-        ),
-        paginated_matches AS (
-          SELECT * FROM search_matches WHERE row_num <= ?
-        ),
-        has_more_flag AS (
-          SELECT EXISTS(SELECT 1 FROM search_matches WHERE row_num = ? + 1) as has_more
-        ),
-        ancestor_paths AS (
-          SELECT 
-            pm.hash,
-            pm.parentHash,
-            pm.name,
-            pm.path,
-            pm.size,
-            0 as depth,
-            pm.hash as matchHash
-          FROM paginated_matches pm
-          
-          UNION ALL
-          
-          SELECT 
-            n.hash, 
-            n.parentHash, 
-            n.name, 
-            n.path, 
-            n.size, 
-            ap.depth + 1, 
-            ap.matchHash
-          FROM nodes n
-          INNER JOIN ancestor_paths ap ON n.hash = ap.parentHash
-        ),
-        deduplicated_paths AS (
-          SELECT 
-            ap.*,
-            ROW_NUMBER() OVER (PARTITION BY ap.hash ORDER BY ap.depth ASC, ap.matchHash ASC) as rn
-          FROM ancestor_paths ap
-        )
-        SELECT 
-          dp.hash, 
-          dp.name, 
-          dp.path, 
-          dp.size, 
-          dp.parentHash, 
-          dp.depth,
-          (SELECT has_more FROM has_more_flag) as has_more
-        FROM deduplicated_paths dp
-        WHERE dp.rn = 1
-        ORDER BY dp.matchHash, dp.depth DESC
+        SELECT hash, score FROM (${source.sql})
+        ${hasCursor ? 'WHERE (score > ? OR (score = ? AND hash > ?))' : ''}
+        ORDER BY score ASC, hash ASC
+        LIMIT ?
         `
       )
       .all(
-        searchTerm,
+        ...source.params,
         ...(hasCursor && decodedCursor
-          ? [decodedCursor.name, decodedCursor.name, decodedCursor.hash]
+          ? [decodedCursor.score, decodedCursor.score, decodedCursor.hash]
           : []),
-        limit,
-        limit
-      ) as (ParsedEntry & {
-      parentHash: string;
-      depth: number;
-      matchHash: string;
-      has_more: number;
-    })[];
-
-    // Extract hasMore from first row (same for all rows)
-    const hasMore =
-      queryResult.length > 0 ? Boolean(queryResult[0].has_more) : false;
-
-    // Get the last search match for cursor (need to find it from results)
-    let lastItem: CursorData | null = null;
-    if (hasMore && queryResult.length > 0) {
-      // Find the last match (depth = 0) in the results, ordered by matchHash
-      const matches = queryResult.filter((r) => r.depth === 0);
-      if (matches.length > 0) {
-        // Get the last match by matchHash (they're already ordered)
-        const lastMatch = matches[matches.length - 1];
-        lastItem = { name: lastMatch.name, hash: lastMatch.hash };
-      }
-    }
+        limit + 1
+      ) as SearchCursorData[];
 
-    // If no results, return empty
-    if (queryResult.length === 0) {
-      res.json({
-        data: [],
-        tree: {},
-        pagination: {
-          limit,
-          hasMore: false,
-        },
-      });
-      return;
+    const hasMore = matches.length > limit;
+    let lastItem: SearchCursorData | null = null;
+    if (hasMore) {
+      matches.pop();
+      // The cursor points at the last returned match
+      lastItem = matches[matches.length - 1];
     }
 
-    const results = queryResult;
-
-    // eslint-disable-next-line @typescript-eslint/no-unused-vars
-    const data = results.map(({ has_more, ...result }) => {
+    // The synonym every match was found by (structured queries match the whole name)
+    const synonymsByHash = selectSynonyms(matches.map((match) => match.hash));
+    const matchesWithSynonym = matches.map((match) => {
+      const synonyms = synonymsByHash.get(match.hash) ?? [];
       return {
-        ...result,
-        childrenUrl:
-          result.size > 0 ? `/entries/${result.hash}/children` : null,
+        ...match,
+        matchedSynonym:
+          mode === 'query'
+            ? null
+            : mode === 'pattern'
+            ? findPatternSynonym(q, synonyms)
+            : findMatchedSynonym(synonyms, terms),
       };
     });
 
+    // "Did you mean" corrections when an exact search finds nothing
+    // (only corrections with matches within the filters)
+    const hasMatches = db.prepare(`
+      SELECT 1 FROM nodes_fts
+      INNER JOIN nodes n ON n.rowid = nodes_fts.rowid
+      WHERE nodes_fts MATCH ? AND ${filterSql.where}
+      LIMIT 1
+    `);
+    const suggestions =
+      mode === 'exact' && !hasCursor && matches.length === 0
+        ? suggestQueries(
+            db,
+            q,
+            (correctedQuery) =>
+              hasMatches.get(correctedQuery, ...filterSql.params) !== undefined
+          )
+        : undefined;
+
+    // Counts are over all matches, not just this page
+    const total = withCount
+      ? (db
+          .prepare(`SELECT COUNT(*) FROM (${source.sql})`)
+          .pluck()
+          .get(...source.params) as number)
+      : undefined;
+
+    // Every match climbs up to its ancestor at the facet depth (matches above it aren't counted)
+    const facets =
+      facetDepth !== null
+        ? db
+            .prepare(
+              `
+              WITH RECURSIVE climb(hash, parentHash, depth) AS (
+                SELECT n.hash, n.parentHash, n.depth
+                FROM (${source.sql}) m
+                INNER JOIN nodes n ON n.hash = m.hash
+                WHERE n.depth >= ?
+                UNION ALL
+                SELECT p.hash, p.parentHash, p.depth
+                FROM climb c
+                INNER JOIN nodes p ON p.hash = c.parentHash
+                WHERE c.depth > ?
+              )
+              SELECT a.hash, a.name, COUNT(*) AS count
+              FROM climb c
+              INNER JOIN nodes a ON a.hash = c.hash
+              WHERE c.depth = ?
+              GROUP BY a.hash
+              ORDER BY count DESC, LOWER(a.name) ASC, a.hash ASC
+              LIMIT ?
+              `
+            )
+            .all(
+              ...source.params,
+              facetDepth,
+              facetDepth,
+              facetDepth,
+              SEARCH_FACET_LIMIT
+            )
+        : undefined;
+
     res.json({
-      data,
+      data: withAncestors(matchesWithSynonym),
       pagination: buildPaginationResponse({
         limit,
         hasMore,
         lastItem,
         buildNextUrl: (nextCursor) =>
-          `/entries/search?q=${encodeURIComponent(
-            q as string
-          )}&limit=${limit}&cursor=${nextCursor}`,
+          `/entries/search?${new URLSearchParams({
+            q,
+            mode,
+            ...searchFiltersToParams(filters),
+            // The next page gets the counts too, the same as the one that asked for them
+            ...(withCount ? { count: 'true' } : {}),
+            ...(facetDepth !== null ? { facetDepth: String(facetDepth) } : {}),
+            limit: String(limit),
+            cursor: nextCursor,
+          })}`,
       }),
+      suggestions,
+      total,
+      facets,
     });
   } catch (error) {
     console.error('Search error:', error);
@@ -276,6 +966,227 @@ app.get('/entries/search', ({ query }, res) => {
   }
 });
 
+// Registered after the other /entries/* routes, so `search` isn't taken for a hash
+app.get('/entries/:hash', ({ params, query }, res): void => {
+  const { hash } = params;
+
+  const sort = parseChildrenSort(query.sort);
+  if (!sort) {
+    res.status(400).json({
+      error: `Invalid sort, expected one of: ${CHILDREN_SORTS.join(', ')}`,
+    });
+    return;
+  }
+
+  const entry = db
+    .prepare(`SELECT ${ENTRY_COLUMNS}, path FROM nodes WHERE hash = ?`)
+    .get(hash) as (EntryRow & { path: string }) | undefined;
+
+  if (!entry) {
+    res.status(404).json({ error: 'Entry not found' });
+    return;
+  }
+
+  // Position among the siblings in the requested sort, the root has no siblings
+  const { orderBy } = getChildrenSortOrder(sort);
+  const position = (
+    entry.parentHash
+      ? db
+          .prepare(
+            `
+              SELECT siblingIndex, siblingCount FROM (
+                SELECT
+                  hash,
+                  ROW_NUMBER() OVER (ORDER BY ${orderBy}) - 1 as siblingIndex,
+                  COUNT(*) OVER () as siblingCount
+                FROM nodes
+                WHERE parentHash = ?
+              )
+              WHERE hash = ?
+            `
+          )
+          .get(entry.parentHash, hash)
+      : { siblingIndex: 0, siblingCount: 1 }
+  ) as { siblingIndex: number; siblingCount: number };
+
+  // Walk the whole subtree once, grouped by the number of children
+  const levels = db
+    .prepare(
+      `
+        WITH RECURSIVE subtree AS (
+          SELECT hash, childCount, depth FROM nodes WHERE hash = ?
+
+          UNION ALL
+
+          SELECT n.hash, n.childCount, n.depth
+          FROM nodes n
+          INNER JOIN subtree s ON n.parentHash = s.hash
+        )
+        SELECT childCount, COUNT(*) as nodes, MAX(depth) as maxDepth
+        FROM subtree
+        GROUP BY childCount
+        ORDER BY childCount
+      `
+    )
+    .all(hash) as { childCount: number; nodes: number; maxDepth: number }[];
+
+  const largestChildren = db
+    .prepare(
+      `
+        SELECT ${ENTRY_COLUMNS}
+        FROM nodes
+        WHERE parentHash = ?
+        ORDER BY size DESC, hash ASC
+        LIMIT ?
+      `
+    )
+    .all(hash, LARGEST_CHILDREN_LIMIT) as EntryRow[];
+
+  res.json({
+    data: {
+      ...toEntry(entry),
+      ...position,
+      stats: {
+        leafCount: entry.leafCount,
+        // levels below the node (0 for a leaf)
+        maxDepth:
+          Math.max(...levels.map((level) => level.maxDepth)) - entry.depth,
+        // number of nodes in the subtree by their number of children, leaves excluded
+        branchingHistogram: levels
+          .filter((level) => level.childCount > 0)
+          .map(({ childCount, nodes }) => ({ childCount, nodes })),
+        largestChildren: largestChildren.map((child) => toEntry(child)),
+      },
+    },
+  });
+});
+
+app.post('/entries/:hash/children', ({ params, body }, res): void => {
+  try {
+    const hash = createChildEntry(db, params.hash, parseNewEntryInput(body));
+    res
+      .status(201)
+      .location(`/entries/${hash}`)
+      .json({ data: selectEntry(hash) });
+  } catch (error) {
+    sendEditError(res, error);
+  }
+});
+
+app.patch('/entries/:hash', ({ params, body }, res): void => {
+  try {
+    // The hash changes with the path, the response has the new one
+    const hash = renameEntry(db, params.hash, parseRenameInput(body));
+    res.json({ data: selectEntry(hash) });
+  } catch (error) {
+    sendEditError(res, error);
+  }
+});
+
+app.post('/entries/:hash/move', ({ params, body }, res): void => {
+  try {
+    // The subtree gets new paths and hashes, the response has the new hash
+    const hash = moveEntry(db, params.hash, resolveHash(parseMoveInput(body)));
+    res.json({ data: selectEntry(hash) });
+  } catch (error) {
+    sendEditError(res, error);
+  }
+});
+
+app.delete('/entries/:hash', ({ params, query }, res): void => {
+  if (
+    query.recursive !== undefined &&
+    !['true', 'false'].includes(query.recursive as string)
+  ) {
+    res
+      .status(400)
+      .json({ error: 'Invalid recursive, expected true or false' });
+    return;
+  }
+
+  try {
+    const deletedCount = deleteEntry(
+      db,
+      params.hash,
+      query.recursive === 'true'
+    );
+    res.json({ data: { hash: params.hash, deletedCount } });
+  } catch (error) {
+    sendEditError(res, error);
+  }
+});
+
+app.get('/synsets/:wnid', ({ params }, res): void => {
+  const { wnid } = params;
+
+  // Every occurrence of the synset, the same wnid can live under several paths
+  const occurrences = db
+    .prepare(
+      `SELECT ${ENTRY_COLUMNS}, path FROM nodes WHERE wnid = ? ORDER BY path ASC, hash ASC`
+    )
+    .all(wnid) as EntryRow[];
+
+  if (occurrences.length === 0) {
+    res.status(404).json({ error: 'Synset not found' });
+    return;
+  }
+
+  // Walk up from every occurrence to the root, so the client can reveal it in the lazy tree
+  const ancestorRows = db
+    .prepare(
+      `
+        WITH occurrences AS (
+          SELECT hash, parentHash FROM nodes WHERE wnid = ?
+        ),
+        ancestors AS (
+          SELECT o.hash as occurrenceHash, o.parentHash as hash, 1 as depth
+          FROM occurrences o
+          WHERE o.parentHash IS NOT NULL
+
+          UNION ALL
+
+          SELECT a.occurrenceHash, n.parentHash, a.depth + 1
+          FROM nodes n
+          INNER JOIN ancestors a ON n.hash = a.hash
+          WHERE n.parentHash IS NOT NULL
+        )
+        SELECT occurrenceHash, hash FROM ancestors ORDER BY occurrenceHash, depth DESC
+      `
+    )
+    .all(wnid) as { occurrenceHash: string; hash: string }[];
+
+  const ancestorsByHash = new Map<string, string[]>();
+  for (const { occurrenceHash, hash } of ancestorRows) {
+    const ancestors = ancestorsByHash.get(occurrenceHash) ?? [];
+    ancestors.push(hash);
+    ancestorsByHash.set(occurrenceHash, ancestors);
+  }
+
+  const data = occurrences.map((occurrence) => ({
+    ...toEntry(occurrence),
+    // ancestor hashes ordered from the root down to the parent
+    ancestors: ancestorsByHash.get(occurrence.hash) ?? [],
+  }));
+
+  res.json({ data });
+});
+
+// Malformed JSON bodies get the same error envelope as the other errors
+app.use(
+  (
+    error: Error & { status?: number; type?: string },
+    req: express.Request,
+    res: express.Response,
+    next: express.NextFunction
+  ) => {
+    if (error.type === 'entity.parse.failed') {
+      res.status(400).json({ error: 'Request body is not valid JSON' });
+      return;
+    }
+    next(error);
+  }
+);
+
 app.listen(port, host, () => {
   console.log(`[ ready ] http://${host}:${port}`);
 });
@@ -0,0 +1,293 @@
+import { mkdtempSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import path from 'path';
+import { parseArgs } from 'util';
+import type Database from 'better-sqlite3';
+import { createDatabase, initializeDatabase, resolveDatabasePath } from './db';
+import { resolveImporter } from './importers';
+import { getWhitespaceIssues } from './names';
+import { createEntryWriter } from './parse';
+
+const USAGE = `Usage: validate [options]
+
+Validates the tree and prints a JSON report.
+Exits with 1 if there are errors (or warnings with --strict), with 2 if validation failed to run.
+
+Options:
+  --db <file>        Database to validate (default: $DATABASE_PATH or assets/database.db)
+  --input <file>     Validate a source file instead, it's parsed into a temporary database
+  --format <format>  Source format of --input (default: by file extension)
+  --strict           Treat warnings as errors
+  --help             Show this message`;
+
+export type Severity = 'error' | 'warning';
+
+export interface CheckResult<T> {
+  severity: Severity;
+  count: number;
+  items: T[];
+}
+
+export interface DuplicateIssue {
+  parentHash: string | null;
+  name: string;
+  hashes: string[];
+}
+
+export interface OrphanIssue {
+  hash: string;
+  parentHash: string;
+  path: string;
+}
+
+export interface SizeMismatchIssue {
+  hash: string;
+  path: string;
+  size: number;
+  actualSize: number;
+}
+
+export interface WhitespaceIssue {
+  hash: string;
+  path: string;
+  name: string;
+  reasons: string[];
+}
+
+export interface ValidationReport {
+  source: string;
+  valid: boolean;
+  summary: {
+    nodes: number;
+    errors: number;
+    warnings: number;
+  };
+  checks: {
+    duplicates: CheckResult<DuplicateIssue>;
+    orphans: CheckResult<OrphanIssue>;
+    sizeMismatches: CheckResult<SizeMismatchIssue>;
+    whitespace: CheckResult<WhitespaceIssue>;
+  };
+}
+
+/**
+ * Wraps check items into a check result
+ */
+function toCheckResult<T>(severity: Severity, items: T[]): CheckResult<T> {
+  return { severity, count: items.length, items };
+}
+
+/**
+ * Finds nodes sharing the same name under the same parent
+ * The source does contain these (same path, different wnid), so it's only a warning
+ */
+function findDuplicates(db: Database.Database): DuplicateIssue[] {
+  const rows = db
+    .prepare(
+      `
+        SELECT parentHash, name, group_concat(hash) as hashes
+        FROM nodes
+        GROUP BY parentHash, name
+        HAVING COUNT(*) > 1
+        ORDER BY name
+      `
+    )
+    .all() as { parentHash: string | null; name: string; hashes: string }[];
+
+  return rows.map((row) => ({ ...row, hashes: row.hashes.split(',') }));
+}
+
+/**
+ * Finds nodes whose parentHash has no row
+ */
+function findOrphans(db: Database.Database): OrphanIssue[] {
+  return db
+    .prepare(
+      `
+        SELECT n.hash, n.parentHash, n.path
+        FROM nodes n
+        WHERE n.parentHash IS NOT NULL
+          AND NOT EXISTS (SELECT 1 FROM nodes p WHERE p.hash = n.parentHash)
+        ORDER BY n.path
+      `
+    )
+    .all() as OrphanIssue[];
+}
+
+/**
+ * Finds nodes whose stored size disagrees with their actual descendant count
+ * UNION (not UNION ALL) keeps the recursion finite even if the data has cycles
+ */
+function findSizeMismatches(db: Database.Database): SizeMismatchIssue[] {
+  return db
+    .prepare(
+      `
+        WITH descendants(ancestor, hash) AS (
+          SELECT parentHash, hash FROM nodes WHERE parentHash IS NOT NULL
+
+          UNION
+
+          SELECT n.parentHash, d.hash
+          FROM descendants d
+          INNER JOIN nodes n ON n.hash = d.ancestor
+          WHERE n.parentHash IS NOT NULL
+        ),
+        counts AS (
+          SELECT ancestor, COUNT(*) as actualSize FROM descendants GROUP BY ancestor
+        )
+        SELECT n.hash, n.path, n.size, COALESCE(c.actualSize, 0) as actualSize
+        FROM nodes n
+        LEFT JOIN counts c ON c.ancestor = n.hash
+        WHERE n.size IS NOT COALESCE(c.actualSize, 0)
+        ORDER BY n.path
+      `
+    )
+    .all() as SizeMismatchIssue[];
+}
+
+/**
+ * Finds names with suspicious whitespace
+ */
+function findWhitespaceIssues(db: Database.Database): WhitespaceIssue[] {
+  const issues: WhitespaceIssue[] = [];
+
+  // Iterate, so only the issues are kept in memory
+  const rows = db
+    .prepare('SELECT hash, path, name FROM nodes ORDER BY path')
+    .iterate() as IterableIterator<{
+    hash: string;
+    path: string;
+    name: string;
+  }>;
+
+  for (const row of rows) {
+    const reasons = getWhitespaceIssues(row.name);
+    if (reasons.length > 0) {
+      issues.push({ ...row, reasons });
+    }
+  }
+
+  return issues;
+}
+
+/**
+ * Validates the tree stored in a database
+ * @param db - The database connection
+ * @param source - Description of the validated source, included in the report
+ * @param strict - Treat warnings as errors
+ * @returns The validation report
+ */
+export function validateDatabase(
+  db: Database.Database,
+  source: string,
+  strict = false
+): ValidationReport {
+  const { nodes } = db.prepare('SELECT COUNT(*) as nodes FROM nodes').get() as {
+    nodes: number;
+  };
+
+  const checks: ValidationReport['checks'] = {
+    duplicates: toCheckResult('warning', findDuplicates(db)),
+    orphans: toCheckResult('error', findOrphans(db)),
+    sizeMismatches: toCheckResult('error', findSizeMismatches(db)),
+    whitespace: toCheckResult('warning', findWhitespaceIssues(db)),
+  };
+
+  const results = Object.values(checks) as CheckResult<unknown>[];
+  const count = (severity: Severity) =>
+    results
+      .filter((check) => check.severity === severity)
+      .reduce((sum, check) => sum + check.count, 0);
+
+  const errors = count('error');
+  const warnings = count('warning');
+
+  return {
+    source,
+    valid: errors === 0 && (!strict || warnings === 0),
+    summary: { nodes, errors, warnings },
+    checks,
+  };
+}
+
+/**
+ * Parses a source file into a temporary database and validates it
+ * @param input - The source file
+ * @param format - Optional source format
+ * @param strict - Treat warnings as errors
+ * @returns The validation report
+ */
+async function validateSource(
+  input: string,
+  format: string | undefined,
+  strict: boolean
+): Promise<ValidationReport> {
+  const importer = resolveImporter(input, format);
+  const tempDir = mkdtempSync(path.join(tmpdir(), 'validate-'));
+  const db = initializeDatabase(path.join(tempDir, 'database.db'));
+
+  try {
+    db.pragma('foreign_keys = OFF');
+    const writer = createEntryWriter(db);
+    await importer.parse(input, writer.write);
+    writer.flush();
+
+    return validateDatabase(db, input, strict);
+  } finally {
+    db.close();
+    rmSync(tempDir, { recursive: true, force: true });
+  }
+}
+
+/**
+ * Main function, run with `--help` for the list of options
+ */
+async function main() {
+  const { values } = parseArgs({
+    args: process.argv.slice(2),
+    options: {
+      db: { type: 'string' },
+      input: { type: 'string' },
+      format: { type: 'string' },
+      strict: { type: 'boolean' },
+      help: { type: 'boolean' },
+    },
+  });
+
+  if (values.help) {
+    console.log(USAGE);
+    return;
+  }
+
+  const strict = values.strict ?? false;
+  let report: ValidationReport;
+
+  if (values.input) {
+    report = await validateSource(
+      path.resolve(values.input),
+      values.format,
+      strict
+    );
+  } else {
+    const dbPath = values.db ? path.resolve(values.db) : resolveDatabasePath();
+    const db = createDatabase(dbPath);
+    try {
+      report = validateDatabase(db, dbPath, strict);
+    } finally {
+      db.close();
+    }
+  }
+
+  console.log(JSON.stringify(report, null, 2));
+
+  if (!report.valid) {
+    process.exitCode = 1;
+  }
+}
+
+if (require.main === module) {
+  main().catch((error) => {
+    console.error(error instanceof Error ? error.message : error);
+    process.exitCode = 2;
+  });
+}
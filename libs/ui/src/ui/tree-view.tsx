@@ -12,12 +12,16 @@ export { TreeView } from './tree-view/components/TreeView';
 export { TreeItem } from './tree-view/components/TreeItem';
 export { TreeNode } from './tree-view/components/TreeNode';
 export { TreeLeaf } from './tree-view/components/TreeLeaf';
+export { TreeItemEditor } from './tree-view/components/TreeItemEditor';
+export { TreeItemActions } from './tree-view/components/TreeItemActions';
 
 // Types
 export type {
   TreeDataItem,
   TreeRenderItemParams,
   TreeProps,
+  TreeEditMode,
+  TreeEditState,
   FlattenedTreeItem,
 } from './tree-view/types';
 
@@ -26,3 +30,5 @@ export { useFlattenedTree } from './tree-view/hooks/useFlattenedTree';
 export { useTreeExpansion } from './tree-view/hooks/useTreeExpansion';
 export { useTreeSelection } from './tree-view/hooks/useTreeSelection';
 export { useInfiniteScroll } from './tree-view/hooks/useInfiniteScroll';
+export { useTreeEditing } from './tree-view/hooks/useTreeEditing';
+export type { TreeEditHandlers } from './tree-view/hooks/useTreeEditing';
@@ -0,0 +1,74 @@
+import React from 'react';
+import { Pencil, Plus, Trash2 } from 'lucide-react';
+import type { TreeDataItem } from '../types';
+import type { TreeEditHandlers } from '../hooks/useTreeEditing';
+
+const actionClassName =
+  'p-0.5 rounded-sm text-muted-foreground hover:text-foreground hover:bg-accent';
+
+// Edit buttons at the end of a row, visible while the row is hovered, focused or selected
+export const TreeItemActions = ({
+  item,
+  editing,
+  isSelected,
+}: {
+  item: TreeDataItem;
+  editing: TreeEditHandlers;
+  isSelected: boolean;
+}) => {
+  const { startRename, startAddChild, requestDelete } = editing;
+
+  // Rows handle clicks themselves, a button click must not select or toggle the row
+  const run =
+    (action: (item: TreeDataItem) => void) => (e: React.MouseEvent) => {
+      e.stopPropagation();
+      action(item);
+    };
+
+  return (
+    <div
+      className={
+        isSelected
+          ? 'flex gap-0.5 ml-1 shrink-0'
+          : 'flex gap-0.5 ml-1 shrink-0 opacity-0 group-hover:opacity-100 group-focus:opacity-100'
+      }
+    >
+      {startRename && (
+        <button
+          type="button"
+          tabIndex={-1}
+          title="Rename (F2)"
+          aria-label="Rename"
+          className={actionClassName}
+          onClick={run(startRename)}
+        >
+          <Pencil className="w-3.5 h-3.5" />
+        </button>
+      )}
+      {startAddChild && (
+        <button
+          type="button"
+          tabIndex={-1}
+          title="Add child"
+          aria-label="Add child"
+          className={actionClassName}
+          onClick={run(startAddChild)}
+        >
+          <Plus className="w-3.5 h-3.5" />
+        </button>
+      )}
+      {requestDelete && (
+        <button
+          type="button"
+          tabIndex={-1}
+          title="Delete (Del)"
+          aria-label="Delete"
+          className={actionClassName}
+          onClick={run(requestDelete)}
+        >
+          <Trash2 className="w-3.5 h-3.5" />
+        </button>
+      )}
+    </div>
+  );
+};
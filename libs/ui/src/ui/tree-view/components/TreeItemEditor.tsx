@@ -0,0 +1,71 @@
+import React from 'react';
+import { cn } from '@homework/ui/utils';
+
+export type TreeItemEditorProps = {
+  initialValue?: string;
+  placeholder?: string;
+  label: string;
+  onCommit: (value: string) => void;
+  onCancel: () => void;
+  className?: string;
+};
+
+// Inline text input of a tree row, Enter or leaving it commits, Escape cancels
+export const TreeItemEditor = ({
+  initialValue = '',
+  placeholder,
+  label,
+  onCommit,
+  onCancel,
+  className,
+}: TreeItemEditorProps) => {
+  const [value, setValue] = React.useState(initialValue);
+  const inputRef = React.useRef<HTMLInputElement>(null);
+  // Committing moves the focus away, the blur must not commit a second time
+  const isDoneRef = React.useRef(false);
+
+  React.useEffect(() => {
+    inputRef.current?.focus();
+    inputRef.current?.select();
+  }, []);
+
+  const finish = (commit: boolean) => {
+    if (isDoneRef.current) return;
+    isDoneRef.current = true;
+    if (commit) {
+      onCommit(value);
+    } else {
+      onCancel();
+    }
+  };
+
+  return (
+    <input
+      ref={inputRef}
+      type="text"
+      aria-label={label}
+      placeholder={placeholder}
+      value={value}
+      className={cn(
+        'flex-1 min-w-0 h-6 px-1 text-sm rounded-sm border border-input bg-background',
+        'focus:outline-none focus:ring-1 focus:ring-ring',
+        className
+      )}
+      onChange={(e) => setValue(e.target.value)}
+      // Keys and clicks belong to the input, not to the tree navigation of the row
+      onKeyDown={(e) => {
+        e.stopPropagation();
+        if (e.key === 'Enter') {
+          e.preventDefault();
+          finish(true);
+        } else if (e.key === 'Escape') {
+          e.preventDefault();
+          finish(false);
+        }
+      }}
+      onClick={(e) => e.stopPropagation()}
+      onDoubleClick={(e) => e.stopPropagation()}
+      onBlur={() => finish(true)}
+    />
+  );
+};
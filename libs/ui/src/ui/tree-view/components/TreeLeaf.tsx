@@ -2,7 +2,14 @@ import React from 'react';
 import { cn } from '@homework/ui/utils';
 import { treeVariants, selectedTreeVariants } from '../variants';
 import { TreeIcon } from './TreeIcon';
-import type { TreeDataItem, TreeRenderItemParams } from '../types';
+import { TreeItemEditor } from './TreeItemEditor';
+import { TreeItemActions } from './TreeItemActions';
+import type { TreeEditHandlers } from '../hooks/useTreeEditing';
+import type {
+  TreeDataItem,
+  TreeEditMode,
+  TreeRenderItemParams,
+} from '../types';
 
 export type TreeLeafProps = React.HTMLAttributes<HTMLDivElement> & {
   item: TreeDataItem;
@@ -18,6 +25,8 @@ export type TreeLeafProps = React.HTMLAttributes<HTMLDivElement> & {
   ) => void;
   focusedItemId?: string;
   index: number;
+  editing?: TreeEditHandlers; // Only given when the tree is editable
+  editMode?: TreeEditMode; // Inline editor open in this row
 };
 
 const TreeLeafComponent = React.forwardRef<HTMLDivElement, TreeLeafProps>(
@@ -33,6 +42,8 @@ const TreeLeafComponent = React.forwardRef<HTMLDivElement, TreeLeafProps>(
       onKeyDown,
       focusedItemId,
       index,
+      editing,
+      editMode,
       ...props
     },
     ref
@@ -52,6 +63,23 @@ const TreeLeafComponent = React.forwardRef<HTMLDivElement, TreeLeafProps>(
       }
     }, [isFocused]);
 
+    // Closes the inline editor (commits the value, if any), keyboard navigation continues from the row
+    // unless the editor lost the focus to something else
+    const endEdit = (value?: string) => {
+      const hadFocus = !!itemRef.current?.contains(document.activeElement);
+      if (editing && editMode) {
+        if (value === undefined) {
+          editing.cancelEdit();
+        } else {
+          editing.commitEdit(item, editMode, value);
+        }
+      }
+      if (hadFocus) {
+        itemRef.current?.focus();
+      }
+    };
+    const startRename = editing?.startRename;
+
     return (
       <div
         ref={(el) => {
@@ -78,13 +106,24 @@ const TreeLeafComponent = React.forwardRef<HTMLDivElement, TreeLeafProps>(
         onClick={() => {
           handleSelectChange(item);
         }}
+        onDoubleClick={startRename && (() => startRename(item))}
         onKeyDown={(e) => {
           onKeyDown?.(e, item, index);
         }}
         {...props}
       >
         <div className="mr-1 w-4 h-4 shrink-0" />
-        {renderItem ? (
+        {editMode === 'rename' ? (
+          <>
+            <TreeIcon item={item} default={defaultLeafIcon} />
+            <TreeItemEditor
+              initialValue={item.editName ?? item.name}
+              label="New name"
+              onCommit={endEdit}
+              onCancel={() => endEdit()}
+            />
+          </>
+        ) : renderItem ? (
           renderItem({
             item,
             level,
@@ -95,9 +134,30 @@ const TreeLeafComponent = React.forwardRef<HTMLDivElement, TreeLeafProps>(
         ) : (
           <>
             <TreeIcon item={item} default={defaultLeafIcon} />
-            <span className="flex-1 min-w-0 text-sm truncate">{item.name}</span>
+            <span
+              className="flex-1 min-w-0 text-sm truncate"
+              title={item.title}
+            >
+              {item.name}
+            </span>
           </>
         )}
+        {editMode === 'addChild' && (
+          <TreeItemEditor
+            placeholder="Name of the new child"
+            label="Name of the new child"
+            className="ml-2"
+            onCommit={endEdit}
+            onCancel={() => endEdit()}
+          />
+        )}
+        {editing && !editMode && (
+          <TreeItemActions
+            item={item}
+            editing={editing}
+            isSelected={isSelected}
+          />
+        )}
       </div>
     );
   }
@@ -121,7 +181,9 @@ export const TreeLeaf = React.memo(
       prevProps.handleSelectChange === nextProps.handleSelectChange &&
       prevProps.renderItem === nextProps.renderItem &&
       prevProps.onKeyDown === nextProps.onKeyDown &&
-      prevProps.index === nextProps.index
+      prevProps.index === nextProps.index &&
+      prevProps.editing === nextProps.editing &&
+      prevProps.editMode === nextProps.editMode
     );
   }
 ) as typeof TreeLeafComponent;
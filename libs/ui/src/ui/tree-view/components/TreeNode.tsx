@@ -3,7 +3,17 @@ import { ChevronRight } from 'lucide-react';
 import { cn } from '@homework/ui/utils';
 import { treeVariants, selectedTreeVariants } from '../variants';
 import { TreeIcon } from './TreeIcon';
-import type { ExtendedTreeDataItem, TreeRenderItemParams } from '../types';
+import { TreeItemEditor } from './TreeItemEditor';
+import { TreeItemActions } from './TreeItemActions';
+import type { TreeEditHandlers } from '../hooks/useTreeEditing';
+import type {
+  ExtendedTreeDataItem,
+  TreeEditMode,
+  TreeRenderItemParams,
+} from '../types';
+
+// How long a click waits for a second one before it toggles, when a double-click renames
+const DOUBLE_CLICK_DELAY = 250;
 
 export type TreeNodeProps = {
   item: ExtendedTreeDataItem;
@@ -23,6 +33,8 @@ export type TreeNodeProps = {
   ) => void;
   focusedItemId?: string;
   index: number;
+  editing?: TreeEditHandlers; // Only given when the tree is editable
+  editMode?: TreeEditMode; // Inline editor open in this row
 };
 
 const TreeNodeComponent = ({
@@ -37,6 +49,8 @@ const TreeNodeComponent = ({
   onKeyDown,
   focusedItemId,
   index,
+  editing,
+  editMode,
 }: TreeNodeProps) => {
   const isInitiallyExpanded = React.useMemo(
     () => expandedSet.has(item.id),
@@ -86,6 +100,29 @@ const TreeNodeComponent = ({
     }
   }, [isFocused]);
 
+  // Closes the inline editor (commits the value, if any), keyboard navigation continues from the row
+  // unless the editor lost the focus to something else
+  const endEdit = (value?: string) => {
+    const hadFocus = !!itemRef.current?.contains(document.activeElement);
+    if (editing && editMode) {
+      if (value === undefined) {
+        editing.cancelEdit();
+      } else {
+        editing.commitEdit(item, editMode, value);
+      }
+    }
+    if (hadFocus) {
+      itemRef.current?.focus();
+    }
+  };
+  const startRename = editing?.startRename;
+
+  // Toggle of the last click, cancelled if it turns out to be the first click of a double-click
+  const toggleTimeoutRef = React.useRef<
+    ReturnType<typeof setTimeout> | undefined
+  >(undefined);
+  React.useEffect(() => () => clearTimeout(toggleTimeoutRef.current), []);
+
   // For virtualization, TreeNode is just the header - children are rendered separately
   return (
     <div
@@ -103,13 +140,21 @@ const TreeNodeComponent = ({
         isSelected && selectedTreeVariants()
       )}
       style={{ paddingLeft: `${level * 16 + 20}px` }}
-      onClick={() => {
+      onClick={(e) => {
+        clearTimeout(toggleTimeoutRef.current);
+        // A double-click renames, neither of its clicks toggles the node
+        if (startRename && e.detail > 1) return;
         handleSelectChange(item);
         // Only toggle expansion if node has children
-        if (hasChildren) {
-          handleValueChange(isOpen ? [] : [item.id]);
+        if (!hasChildren) return;
+        const toggle = () => handleValueChange(isOpen ? [] : [item.id]);
+        if (startRename && e.detail === 1) {
+          toggleTimeoutRef.current = setTimeout(toggle, DOUBLE_CLICK_DELAY);
+        } else {
+          toggle();
         }
       }}
+      onDoubleClick={startRename && (() => startRename(item))}
       onKeyDown={(e) => {
         onKeyDown?.(e, item, index);
       }}
@@ -120,7 +165,17 @@ const TreeNodeComponent = ({
           isOpen && 'rotate-90'
         )}
       />
-      {renderItem ? (
+      {editMode === 'rename' ? (
+        <>
+          <TreeIcon item={item} default={defaultNodeIcon} />
+          <TreeItemEditor
+            initialValue={item.editName ?? item.name}
+            label="New name"
+            onCommit={endEdit}
+            onCancel={() => endEdit()}
+          />
+        </>
+      ) : renderItem ? (
         renderItem({
           item,
           level,
@@ -132,9 +187,27 @@ const TreeNodeComponent = ({
       ) : (
         <>
           <TreeIcon item={item} default={defaultNodeIcon} />
-          <span className="flex-1 min-w-0 text-sm truncate">{item.name}</span>
+          <span className="flex-1 min-w-0 text-sm truncate" title={item.title}>
+            {item.name}
+          </span>
         </>
       )}
+      {editMode === 'addChild' && (
+        <TreeItemEditor
+          placeholder="Name of the new child"
+          label="Name of the new child"
+          className="ml-2"
+          onCommit={endEdit}
+          onCancel={() => endEdit()}
+        />
+      )}
+      {editing && !editMode && (
+        <TreeItemActions
+          item={item}
+          editing={editing}
+          isSelected={isSelected}
+        />
+      )}
     </div>
   );
 };
@@ -161,7 +234,9 @@ export const TreeNode = React.memo(
       prevProps.onExpandedChange === nextProps.onExpandedChange &&
       prevProps.renderItem === nextProps.renderItem &&
       prevProps.onKeyDown === nextProps.onKeyDown &&
-      prevProps.index === nextProps.index
+      prevProps.index === nextProps.index &&
+      prevProps.editing === nextProps.editing &&
+      prevProps.editMode === nextProps.editMode
     );
   }
 );
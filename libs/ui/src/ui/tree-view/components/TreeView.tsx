@@ -6,6 +6,7 @@ import { useTreeExpansion } from '../hooks/useTreeExpansion';
 import { useTreeSelection } from '../hooks/useTreeSelection';
 import { useInfiniteScroll } from '../hooks/useInfiniteScroll';
 import { useTreeKeyboardNavigation } from '../hooks/useTreeKeyboardNavigation';
+import { useTreeEditing } from '../hooks/useTreeEditing';
 import { TreeNode } from './TreeNode';
 import { TreeLeaf } from './TreeLeaf';
 import type { TreeProps } from '../types';
@@ -15,6 +16,7 @@ export const TreeView = React.forwardRef<HTMLDivElement, TreeProps>(
     {
       data,
       initialSelectedItemId,
+      selectedItemId: externalSelectedItemId,
       expandedNodes,
       onSelectChange,
       onExpandedChange,
@@ -24,13 +26,17 @@ export const TreeView = React.forwardRef<HTMLDivElement, TreeProps>(
       defaultNodeIcon,
       className,
       renderItem,
+      onRename,
+      onAddChild,
+      onDelete,
       ...props
     },
     ref
   ) => {
     const { selectedItemId, handleSelectChange } = useTreeSelection(
       initialSelectedItemId,
-      onSelectChange
+      onSelectChange,
+      externalSelectedItemId
     );
 
     const { expandedItemIds, expandedSetState, handleExpandedChange } =
@@ -56,16 +62,43 @@ export const TreeView = React.forwardRef<HTMLDivElement, TreeProps>(
       overscan: 5, // Render 5 extra items above/below viewport
     });
 
+    // Scroll to an externally selected item once it shows up in the flattened tree
+    const scrolledToItemIdRef = React.useRef<string | undefined>(undefined);
+    React.useEffect(() => {
+      if (
+        !externalSelectedItemId ||
+        scrolledToItemIdRef.current === externalSelectedItemId
+      ) {
+        return;
+      }
+
+      const index = flattenedTree.findIndex(
+        (ft) => ft.item.id === externalSelectedItemId
+      );
+      if (index !== -1) {
+        virtualizer.scrollToIndex(index, { align: 'center' });
+        scrolledToItemIdRef.current = externalSelectedItemId;
+      }
+    }, [externalSelectedItemId, flattenedTree, virtualizer]);
+
     // Infinite scroll logic
     useInfiniteScroll(flattenedTree, expandedSetState, virtualizer, onLoadMore);
 
+    // Inline editing, only when the tree got edit callbacks
+    const { editState, editing } = useTreeEditing(
+      onRename,
+      onAddChild,
+      onDelete
+    );
+
     // Keyboard navigation
     const { onKeyDown, focusedItemId } = useTreeKeyboardNavigation(
       flattenedTree,
       expandedSetState,
       selectedItemId,
       handleSelectChange,
-      handleExpandedChange
+      handleExpandedChange,
+      editing
     );
 
     return (
@@ -110,6 +143,9 @@ export const TreeView = React.forwardRef<HTMLDivElement, TreeProps>(
                 onKeyDown,
                 focusedItemId,
                 index: virtualItem.index,
+                editing: item.readOnly ? undefined : editing,
+                editMode:
+                  editState?.itemId === item.id ? editState.mode : undefined,
               };
 
               return (
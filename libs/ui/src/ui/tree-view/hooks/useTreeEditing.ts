@@ -0,0 +1,65 @@
+import React from 'react';
+import type { TreeDataItem, TreeEditMode, TreeEditState } from '../types';
+
+export type TreeEditHandlers = {
+  // Undefined when the tree has no callback for the action
+  startRename?: (item: TreeDataItem) => void;
+  startAddChild?: (item: TreeDataItem) => void;
+  requestDelete?: (item: TreeDataItem) => void;
+  commitEdit: (item: TreeDataItem, mode: TreeEditMode, value: string) => void;
+  cancelEdit: () => void;
+};
+
+export function useTreeEditing(
+  onRename?: (item: TreeDataItem, name: string) => void,
+  onAddChild?: (item: TreeDataItem, name: string) => void,
+  onDelete?: (item: TreeDataItem) => void
+) {
+  const [editState, setEditState] = React.useState<TreeEditState | undefined>(
+    undefined
+  );
+
+  const cancelEdit = React.useCallback(() => setEditState(undefined), []);
+
+  const commitEdit = React.useCallback(
+    (item: TreeDataItem, mode: TreeEditMode, value: string) => {
+      setEditState(undefined);
+
+      const name = value.trim();
+      // An empty or unchanged name is the same as cancelling
+      if (!name) {
+        return;
+      }
+      if (mode === 'rename' && name !== (item.editName ?? item.name)) {
+        onRename?.(item, name);
+      } else if (mode === 'addChild') {
+        onAddChild?.(item, name);
+      }
+    },
+    [onRename, onAddChild]
+  );
+
+  // Stable as long as the callbacks are, rows only re-render when their own edit mode changes
+  const handlers = React.useMemo<TreeEditHandlers | undefined>(() => {
+    if (!onRename && !onAddChild && !onDelete) {
+      return undefined;
+    }
+
+    return {
+      startRename: onRename
+        ? (item) => setEditState({ itemId: item.id, mode: 'rename' })
+        : undefined,
+      startAddChild: onAddChild
+        ? (item) => setEditState({ itemId: item.id, mode: 'addChild' })
+        : undefined,
+      requestDelete: onDelete,
+      commitEdit,
+      cancelEdit,
+    };
+  }, [onRename, onAddChild, onDelete, commitEdit, cancelEdit]);
+
+  return {
+    editState,
+    editing: handlers,
+  };
+}
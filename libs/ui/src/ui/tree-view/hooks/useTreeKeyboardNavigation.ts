@@ -1,5 +1,6 @@
 import React from 'react';
 import type { FlattenedTreeItem, TreeDataItem } from '../types';
+import type { TreeEditHandlers } from './useTreeEditing';
 
 export type KeyboardNavigationHandlers = {
   onKeyDown: (
@@ -16,7 +17,8 @@ export function useTreeKeyboardNavigation(
   expandedSet: Set<string>,
   selectedItemId: string | undefined,
   onSelectChange: (item: TreeDataItem | undefined) => void,
-  onExpandedChange?: (itemId: string, isExpanded: boolean) => void
+  onExpandedChange?: (itemId: string, isExpanded: boolean) => void,
+  editing?: TreeEditHandlers
 ): KeyboardNavigationHandlers {
   const [focusedItemId, setFocusedItemId] = React.useState<string | undefined>(
     selectedItemId
@@ -156,6 +158,21 @@ export function useTreeKeyboardNavigation(
           break;
         }
 
+        case 'F2': {
+          // Not handled by a read-only tree
+          if (!editing?.startRename || item.readOnly) return;
+          e.preventDefault();
+          editing.startRename(item);
+          break;
+        }
+
+        case 'Delete': {
+          if (!editing?.requestDelete || item.readOnly) return;
+          e.preventDefault();
+          editing.requestDelete(item);
+          break;
+        }
+
         case 'Home': {
           e.preventDefault();
           targetIndex = 0;
@@ -191,6 +208,7 @@ export function useTreeKeyboardNavigation(
       findParent,
       onSelectChange,
       onExpandedChange,
+      editing,
     ]
   );
 
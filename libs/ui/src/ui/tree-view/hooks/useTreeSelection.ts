@@ -3,11 +3,19 @@ import type { TreeDataItem } from '../types';
 
 export function useTreeSelection(
   initialSelectedItemId?: string,
-  onSelectChange?: (item: TreeDataItem | undefined) => void
+  onSelectChange?: (item: TreeDataItem | undefined) => void,
+  externalSelectedItemId?: string
 ) {
   const [selectedItemId, setSelectedItemId] = React.useState<
     string | undefined
-  >(initialSelectedItemId);
+  >(externalSelectedItemId ?? initialSelectedItemId);
+
+  // Sync with external selected state if provided
+  React.useEffect(() => {
+    if (externalSelectedItemId !== undefined) {
+      setSelectedItemId(externalSelectedItemId);
+    }
+  }, [externalSelectedItemId]);
 
   const handleSelectChange = React.useCallback(
     (item: TreeDataItem | undefined) => {
@@ -9,12 +9,16 @@ export { TreeView } from './components/TreeView';
 export { TreeItem } from './components/TreeItem';
 export { TreeNode } from './components/TreeNode';
 export { TreeLeaf } from './components/TreeLeaf';
+export { TreeItemEditor } from './components/TreeItemEditor';
+export { TreeItemActions } from './components/TreeItemActions';
 
 // Types
 export type {
   TreeDataItem,
   TreeRenderItemParams,
   TreeProps,
+  TreeEditMode,
+  TreeEditState,
   FlattenedTreeItem,
 } from './types';
 
@@ -25,3 +29,5 @@ export { useTreeSelection } from './hooks/useTreeSelection';
 export { useInfiniteScroll } from './hooks/useInfiniteScroll';
 export { useTreeKeyboardNavigation } from './hooks/useTreeKeyboardNavigation';
 export type { KeyboardNavigationHandlers } from './hooks/useTreeKeyboardNavigation';
+export { useTreeEditing } from './hooks/useTreeEditing';
+export type { TreeEditHandlers } from './hooks/useTreeEditing';
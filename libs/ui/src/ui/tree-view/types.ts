@@ -3,6 +3,9 @@ import React from 'react';
 export interface TreeDataItem {
   id: string;
   name: string;
+  title?: string; // Tooltip of the item
+  editName?: string; // Text the inline rename starts from (defaults to name)
+  readOnly?: boolean; // No edit actions for this item, even in an editable tree
   children?: TreeDataItem[];
 }
 
@@ -24,6 +27,7 @@ export type TreeRenderItemParams = {
 export type TreeProps = React.HTMLAttributes<HTMLDivElement> & {
   data: TreeDataItem[] | TreeDataItem;
   initialSelectedItemId?: string;
+  selectedItemId?: string; // External selected state, the tree scrolls to it when it changes
   expandedNodes?: Set<string> | string[]; // External expanded state (from Jotai)
   onSelectChange?: (item: TreeDataItem | undefined) => void;
   onExpandedChange?: (
@@ -35,6 +39,18 @@ export type TreeProps = React.HTMLAttributes<HTMLDivElement> & {
   defaultNodeIcon?: React.ComponentType<{ className?: string }>;
   defaultLeafIcon?: React.ComponentType<{ className?: string }>;
   renderItem?: (params: TreeRenderItemParams) => React.ReactNode;
+  // Editing is opt-in, every action is offered only when its callback is given
+  onRename?: (item: TreeDataItem, name: string) => void; // F2 or double-click
+  onAddChild?: (item: TreeDataItem, name: string) => void;
+  onDelete?: (item: TreeDataItem) => void; // Delete key, confirming is up to the callback
+};
+
+// Inline editor shown in a row: its new name or the name of a new child
+export type TreeEditMode = 'rename' | 'addChild';
+
+export type TreeEditState = {
+  itemId: string;
+  mode: TreeEditMode;
 };
 
 export type FlattenedTreeItem = {